@@ -0,0 +1,170 @@
+import {
+  AttributionFormat,
+  ImageResult,
+  MediaLicense,
+  VideoResult,
+} from "./schemas.js";
+
+export type CreditItem =
+  | { mediaType: "image"; result: ImageResult }
+  | { mediaType: "video"; result: VideoResult };
+
+export type CreditContext = {
+  sourceName: string;
+  license: MediaLicense;
+};
+
+export type AssetCredit = {
+  mediaType: "image" | "video";
+  id: number;
+  source: string;
+  creator: string;
+  creatorUrl: string;
+  pageUrl: string;
+  license: MediaLicense;
+};
+
+export type CreditExport = {
+  credits: AssetCredit[];
+  html?: string;
+  markdown?: string;
+  text?: string;
+  jsonLd?: Record<string, unknown>[];
+};
+
+/**
+ * Builds per-asset credits naming the contributor, linking the asset page and
+ * stating the license, in each requested format.
+ */
+export function buildCreditExport(
+  items: CreditItem[],
+  contextFor: (item: CreditItem) => CreditContext,
+  formats: AttributionFormat[]
+): CreditExport {
+  const credits = items.map((item) => toAssetCredit(item, contextFor(item)));
+  const output: CreditExport = { credits };
+
+  if (formats.includes("html")) {
+    output.html = credits.map(formatHtmlCredit).join("\n");
+  }
+  if (formats.includes("markdown")) {
+    output.markdown = credits
+      .map((credit) => `- ${formatMarkdownCredit(credit)}`)
+      .join("\n");
+  }
+  if (formats.includes("text")) {
+    output.text = credits.map(formatTextCredit).join("\n");
+  }
+  if (formats.includes("json-ld")) {
+    output.jsonLd = items.map((item, index) =>
+      toJsonLd(item, credits[index]!)
+    );
+  }
+
+  return output;
+}
+
+function toAssetCredit(
+  { mediaType, result }: CreditItem,
+  { sourceName, license }: CreditContext
+): AssetCredit {
+  const contributor =
+    mediaType === "image" ? result.photographer : result.creator;
+  return {
+    mediaType,
+    id: result.id,
+    source: sourceName,
+    creator: contributor.name,
+    creatorUrl: contributor.profileUrl,
+    pageUrl: result.pageUrl,
+    license,
+  };
+}
+
+function kindLabel(credit: AssetCredit): string {
+  return credit.mediaType === "image" ? "Image" : "Video";
+}
+
+function formatHtmlCredit(credit: AssetCredit): string {
+  const license = credit.license.url
+    ? `<a href="${escapeHtml(credit.license.url)}">${escapeHtml(credit.license.name)}</a>`
+    : escapeHtml(credit.license.name);
+  return `<p>${kindLabel(credit)} by <a href="${escapeHtml(credit.creatorUrl)}">${escapeHtml(credit.creator)}</a> from <a href="${escapeHtml(credit.pageUrl)}">${escapeHtml(credit.source)}</a> (${license})</p>`;
+}
+
+function formatMarkdownCredit(credit: AssetCredit): string {
+  const license = credit.license.url
+    ? `[${escapeMarkdown(credit.license.name)}](${credit.license.url})`
+    : escapeMarkdown(credit.license.name);
+  return `${kindLabel(credit)} by [${escapeMarkdown(credit.creator)}](${credit.creatorUrl}) from [${escapeMarkdown(credit.source)}](${credit.pageUrl}) (${license})`;
+}
+
+function formatTextCredit(credit: AssetCredit): string {
+  const license = credit.license.url
+    ? `${credit.license.name}, ${credit.license.url}`
+    : credit.license.name;
+  return `${kindLabel(credit)} by ${credit.creator} from ${credit.source}: ${credit.pageUrl} (${license})`;
+}
+
+function toJsonLd(
+  item: CreditItem,
+  credit: AssetCredit
+): Record<string, unknown> {
+  const base: Record<string, unknown> = {
+    "@context": "https://schema.org",
+    "@type": item.mediaType === "image" ? "ImageObject" : "VideoObject",
+    name:
+      item.result.tags.slice(0, 3).join(", ") ||
+      `${kindLabel(credit)} ${credit.id}`,
+    url: credit.pageUrl,
+    creator: {
+      "@type": "Person",
+      name: credit.creator,
+      url: credit.creatorUrl,
+    },
+    creditText: formatTextCredit(credit),
+    copyrightHolder: { "@type": "Person", name: credit.creator },
+    provider: { "@type": "Organization", name: credit.source },
+    acquireLicensePage: credit.pageUrl,
+    keywords: item.result.tags.join(", "),
+  };
+  if (credit.license.url) {
+    base.license = credit.license.url;
+  }
+
+  if (item.mediaType === "image") {
+    const { result } = item;
+    return {
+      ...base,
+      contentUrl: result.imageUrl,
+      thumbnailUrl: result.previewUrl,
+      width: result.imageWidth,
+      height: result.imageHeight,
+    };
+  }
+
+  const { result } = item;
+  return {
+    ...base,
+    contentUrl: result.videoUrl,
+    ...(result.previewImageUrl
+      ? { thumbnailUrl: result.previewImageUrl }
+      : {}),
+    ...(result.width ? { width: result.width } : {}),
+    ...(result.height ? { height: result.height } : {}),
+    duration: `PT${result.durationSeconds}S`,
+  };
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+function escapeMarkdown(value: string): string {
+  return value.replace(/([\\`*_[\]()<>#|])/g, "\\$1");
+}
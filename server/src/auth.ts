@@ -0,0 +1,342 @@
+import { discoverAuthorizationServerMetadata } from "@modelcontextprotocol/sdk/client/auth.js";
+import {
+  InvalidTokenError,
+  ServerError,
+} from "@modelcontextprotocol/sdk/server/auth/errors.js";
+import type { OAuthTokenVerifier } from "@modelcontextprotocol/sdk/server/auth/provider.js";
+import type { AuthInfo } from "@modelcontextprotocol/sdk/server/auth/types.js";
+import {
+  constants,
+  createHash,
+  createPublicKey,
+  timingSafeEqual,
+  verify,
+  type JsonWebKey,
+  type KeyObject,
+} from "node:crypto";
+import { serverConfig } from "./config.js";
+import { logger } from "./logger.js";
+import { fetchWithTimeout } from "./resilience.js";
+
+export type AuthOptions = {
+  tokens: string[];
+  issuer: string | null;
+  jwksUrl: string | null;
+  audience: string;
+  requiredScopes: string[];
+};
+
+/** Who made an authenticated request, as seen by tool handlers. */
+export type Principal = {
+  kind: "token" | "jwt";
+  subject: string;
+  clientId: string;
+};
+
+type StaticToken = {
+  name: string;
+  digest: Buffer;
+};
+
+type SigningKey = {
+  key: KeyObject;
+  /** The `alg` the JWK pins the key to, if any. */
+  alg?: string;
+};
+
+type JwtHeader = {
+  alg?: string;
+  kid?: string;
+};
+
+type JwtClaims = {
+  iss?: string;
+  sub?: string;
+  aud?: string | string[];
+  exp?: number;
+  nbf?: number;
+  scope?: string;
+  scp?: string[];
+  client_id?: string;
+  azp?: string;
+};
+
+export const PROTECTED_RESOURCE_METADATA_PATH =
+  "/.well-known/oauth-protected-resource";
+
+// Static tokens never expire, but the SDK middleware requires an expiry.
+const STATIC_TOKEN_LIFETIME_SECONDS = 60 * 60;
+const CLOCK_SKEW_SECONDS = 60;
+const JWKS_REFRESH_INTERVAL_MS = 60_000;
+
+// ECDSA algorithms also fix the curve of the key they may be used with.
+const JWT_ALGORITHMS: Record<
+  string,
+  { hash: string; padding?: "pss"; curve?: string }
+> = {
+  RS256: { hash: "sha256" },
+  RS384: { hash: "sha384" },
+  RS512: { hash: "sha512" },
+  PS256: { hash: "sha256", padding: "pss" },
+  PS384: { hash: "sha384", padding: "pss" },
+  PS512: { hash: "sha512", padding: "pss" },
+  ES256: { hash: "sha256", curve: "prime256v1" },
+  ES384: { hash: "sha384", curve: "secp384r1" },
+  ES512: { hash: "sha512", curve: "secp521r1" },
+};
+
+export function isAuthEnabled(options: AuthOptions): boolean {
+  return options.tokens.length > 0 || options.issuer !== null;
+}
+
+/** Reads the principal the auth middleware attached to a request. */
+export function principalOf(authInfo: AuthInfo | undefined): Principal | null {
+  const principal = authInfo?.extra?.principal;
+  return principal ? (principal as Principal) : null;
+}
+
+/**
+ * Accepts static API tokens from config and, when an issuer is configured,
+ * JWT access tokens signed by a key from the issuer's JWKS.
+ */
+export class AccessTokenVerifier implements OAuthTokenVerifier {
+  private readonly staticTokens: StaticToken[];
+  private keys = new Map<string, SigningKey>();
+  private keysFetchedAt = 0;
+  private keysLoading: Promise<void> | null = null;
+
+  constructor(private readonly options: AuthOptions) {
+    this.staticTokens = options.tokens.map(parseStaticToken);
+  }
+
+  async verifyAccessToken(token: string): Promise<AuthInfo> {
+    const digest = sha256(token);
+    const match = this.staticTokens.find((candidate) =>
+      timingSafeEqual(candidate.digest, digest)
+    );
+    if (match) {
+      return {
+        token,
+        clientId: match.name,
+        scopes: this.options.requiredScopes,
+        expiresAt:
+          Math.floor(Date.now() / 1000) + STATIC_TOKEN_LIFETIME_SECONDS,
+        extra: {
+          principal: {
+            kind: "token",
+            subject: match.name,
+            clientId: match.name,
+          } satisfies Principal,
+        },
+      };
+    }
+
+    if (!this.options.issuer || token.split(".").length !== 3) {
+      throw new InvalidTokenError("Unknown access token");
+    }
+    return this.verifyJwt(token, this.options.issuer);
+  }
+
+  private async verifyJwt(token: string, issuer: string): Promise<AuthInfo> {
+    const [encodedHeader, encodedClaims, encodedSignature] = token.split(".");
+    let header: JwtHeader;
+    let claims: JwtClaims;
+    try {
+      header = JSON.parse(decodeSegment(encodedHeader!).toString("utf8"));
+      claims = JSON.parse(decodeSegment(encodedClaims!).toString("utf8"));
+    } catch {
+      throw new InvalidTokenError("Malformed access token");
+    }
+
+    const algorithm = header.alg ? JWT_ALGORITHMS[header.alg] : undefined;
+    if (!algorithm) {
+      throw new InvalidTokenError(`Unsupported token algorithm ${header.alg}`);
+    }
+    const { key, alg } = await this.findKey(header.kid);
+    // The token picks its own algorithm, so it must agree with the key;
+    // otherwise a token could have a key checked under the wrong scheme.
+    if (
+      (alg !== undefined && alg !== header.alg) ||
+      !fitsAlgorithm(key, algorithm)
+    ) {
+      throw new InvalidTokenError(
+        `Token algorithm ${header.alg} does not match the signing key`
+      );
+    }
+    let valid: boolean;
+    try {
+      valid = verify(
+        algorithm.hash,
+        Buffer.from(`${encodedHeader}.${encodedClaims}`),
+        {
+          key,
+          ...(algorithm.padding === "pss"
+            ? { padding: constants.RSA_PKCS1_PSS_PADDING }
+            : {}),
+          ...(algorithm.curve ? { dsaEncoding: "ieee-p1363" as const } : {}),
+        },
+        decodeSegment(encodedSignature!)
+      );
+    } catch {
+      throw new InvalidTokenError("Invalid token signature");
+    }
+    if (!valid) {
+      throw new InvalidTokenError("Invalid token signature");
+    }
+
+    const now = Math.floor(Date.now() / 1000);
+    if (claims.iss !== issuer) {
+      throw new InvalidTokenError("Token was issued by an untrusted issuer");
+    }
+    const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+    if (!audiences.includes(this.options.audience)) {
+      throw new InvalidTokenError("Token is not intended for this server");
+    }
+    if (typeof claims.exp !== "number") {
+      throw new InvalidTokenError("Token has no expiration time");
+    }
+    if (claims.nbf !== undefined && claims.nbf > now + CLOCK_SKEW_SECONDS) {
+      throw new InvalidTokenError("Token is not valid yet");
+    }
+
+    const subject = claims.sub ?? "unknown";
+    const clientId = claims.client_id ?? claims.azp ?? subject;
+    return {
+      token,
+      clientId,
+      scopes: claims.scp ?? claims.scope?.split(" ").filter(Boolean) ?? [],
+      expiresAt: claims.exp + CLOCK_SKEW_SECONDS,
+      resource: new URL(this.options.audience),
+      extra: {
+        principal: { kind: "jwt", subject, clientId } satisfies Principal,
+      },
+    };
+  }
+
+  private async findKey(kid: string | undefined): Promise<SigningKey> {
+    const lookup = () =>
+      kid ? this.keys.get(kid) : this.keys.values().next().value;
+
+    let key = lookup();
+    // Unknown key IDs usually mean the issuer rotated keys, so refetch, but
+    // not more than once a minute.
+    if (
+      !key &&
+      Date.now() - this.keysFetchedAt >= JWKS_REFRESH_INTERVAL_MS
+    ) {
+      this.keysLoading ??= this.loadKeys().finally(() => {
+        this.keysLoading = null;
+      });
+      await this.keysLoading;
+      key = lookup();
+    }
+    if (!key) {
+      throw new InvalidTokenError("Token was signed by an unknown key");
+    }
+    return key;
+  }
+
+  private async loadKeys() {
+    this.keysFetchedAt = Date.now();
+    try {
+      const metadata = this.options.jwksUrl
+        ? undefined
+        : await discoverAuthorizationServerMetadata(this.options.issuer!);
+      const jwksUrl =
+        this.options.jwksUrl ?? (metadata?.jwks_uri as string | undefined);
+      if (!jwksUrl) {
+        throw new Error(`No jwks_uri advertised by ${this.options.issuer}.`);
+      }
+
+      const { keys = [] } = await fetchWithTimeout(
+        jwksUrl,
+        { method: "GET", headers: { Accept: "application/json" } },
+        serverConfig.upstream.timeoutMs,
+        async (response) => {
+          if (!response.ok) {
+            throw new Error(
+              `JWKS request failed with status ${response.status}.`
+            );
+          }
+          return (await response.json()) as {
+            keys?: Array<
+              JsonWebKey & { kid?: string; use?: string; alg?: string }
+            >;
+          };
+        }
+      );
+
+      const loaded = new Map<string, SigningKey>();
+      keys
+        .filter((jwk) => jwk.use === undefined || jwk.use === "sig")
+        .forEach((jwk, index) => {
+          try {
+            loaded.set(jwk.kid ?? `key-${index}`, {
+              key: createPublicKey({ key: jwk, format: "jwk" }),
+              alg: jwk.alg,
+            });
+          } catch (error) {
+            logger.warn("Skipping unusable JWKS key", { kid: jwk.kid, error });
+          }
+        });
+      this.keys = loaded;
+    } catch (error) {
+      logger.error("Failed to load signing keys", { error });
+      throw new ServerError("Unable to verify access tokens right now");
+    }
+  }
+}
+
+/**
+ * Builds the RFC 9728 document that points MCP clients at the authorization
+ * server they should obtain tokens from.
+ */
+export function buildProtectedResourceMetadata(
+  options: AuthOptions
+): Record<string, unknown> {
+  return {
+    resource: options.audience,
+    authorization_servers: options.issuer ? [options.issuer] : [],
+    bearer_methods_supported: ["header"],
+    ...(options.requiredScopes.length > 0
+      ? { scopes_supported: options.requiredScopes }
+      : {}),
+    resource_name: "Pixabay Image MCP",
+  };
+}
+
+/** Tokens are configured as `name:secret`, or a bare secret. */
+function parseStaticToken(entry: string): StaticToken {
+  const separator = entry.indexOf(":");
+  const secret = separator > 0 ? entry.slice(separator + 1) : entry;
+  const name =
+    separator > 0
+      ? entry.slice(0, separator)
+      : `token-${sha256(secret).toString("hex").slice(0, 8)}`;
+  return { name, digest: sha256(secret) };
+}
+
+/** RSA algorithms need an RSA key, ECDSA ones an EC key on their curve. */
+function fitsAlgorithm(
+  key: KeyObject,
+  algorithm: { padding?: "pss"; curve?: string }
+): boolean {
+  if (algorithm.curve) {
+    return (
+      key.asymmetricKeyType === "ec" &&
+      key.asymmetricKeyDetails?.namedCurve === algorithm.curve
+    );
+  }
+  return (
+    key.asymmetricKeyType === "rsa" ||
+    (algorithm.padding === "pss" && key.asymmetricKeyType === "rsa-pss")
+  );
+}
+
+function sha256(value: string): Buffer {
+  return createHash("sha256").update(value).digest();
+}
+
+function decodeSegment(segment: string): Buffer {
+  return Buffer.from(segment, "base64url");
+}
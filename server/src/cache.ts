@@ -0,0 +1,297 @@
+import { createHash } from "node:crypto";
+import { promises as fs } from "node:fs";
+import { join } from "node:path";
+import { serverConfig } from "./config.js";
+import { logger } from "./logger.js";
+import { searchCacheLookups } from "./metrics.js";
+import { resolveLanguage } from "./pixabay.js";
+import {
+  ImageSearchResult,
+  MediaItemDetails,
+  MediaProvider,
+  RequestOptions,
+  SearchImagesParams,
+  SearchVideosParams,
+  VideoSearchResult,
+} from "./provider.js";
+import {
+  ImageResult,
+  MediaLicense,
+  MediaSource,
+  VideoResult,
+} from "./schemas.js";
+import { UpstreamUnavailableError } from "./resilience.js";
+
+// Bump when the cached result shape changes so old entries are not served.
+const CACHE_FORMAT_VERSION = 2;
+
+export type CacheStatus = "hit" | "miss" | "stale" | "bypass";
+
+export type CachedSearchResult<T> = T & {
+  cacheStatus: CacheStatus;
+};
+
+type CacheEntry<T> = {
+  key: string;
+  expiresAt: number;
+  value: T;
+};
+
+export type SearchCacheOptions = {
+  ttlSeconds: number;
+  maxEntries: number;
+  directory: string | null;
+};
+
+export class SearchCache<T> {
+  private readonly entries = new Map<string, CacheEntry<T>>();
+
+  constructor(private readonly options: SearchCacheOptions) {}
+
+  get enabled(): boolean {
+    return this.options.ttlSeconds > 0 && this.options.maxEntries > 0;
+  }
+
+  async get(key: string): Promise<T | undefined> {
+    const entry = await this.getEntry(key);
+    if (!entry || entry.expiresAt <= Date.now()) {
+      return undefined;
+    }
+    return entry.value;
+  }
+
+  /**
+   * Returns an entry even if its TTL has elapsed. Expired entries stay in the
+   * LRU until evicted so callers can fall back to them when upstream is down.
+   */
+  async getStale(key: string): Promise<T | undefined> {
+    const entry = await this.getEntry(key);
+    return entry?.value;
+  }
+
+  async set(key: string, value: T): Promise<void> {
+    if (!this.enabled) {
+      return;
+    }
+
+    const entry: CacheEntry<T> = {
+      key,
+      expiresAt: Date.now() + this.options.ttlSeconds * 1000,
+      value,
+    };
+    this.remember(entry);
+
+    if (this.options.directory) {
+      try {
+        await fs.mkdir(this.options.directory, { recursive: true });
+        await fs.writeFile(this.filePath(key), JSON.stringify(entry), "utf8");
+      } catch (error) {
+        logger.warn("Failed to persist search cache entry", { error });
+      }
+    }
+  }
+
+  private async getEntry(key: string): Promise<CacheEntry<T> | undefined> {
+    if (!this.enabled) {
+      return undefined;
+    }
+
+    const cached = this.entries.get(key);
+    if (cached) {
+      // Re-insert to mark the entry as most recently used.
+      this.entries.delete(key);
+      this.entries.set(key, cached);
+      return cached;
+    }
+
+    const persisted = await this.readPersisted(key);
+    if (persisted) {
+      this.remember(persisted);
+    }
+    return persisted;
+  }
+
+  private remember(entry: CacheEntry<T>) {
+    this.entries.delete(entry.key);
+    this.entries.set(entry.key, entry);
+    while (this.entries.size > this.options.maxEntries) {
+      const oldest = this.entries.keys().next().value;
+      if (oldest === undefined) break;
+      this.entries.delete(oldest);
+    }
+  }
+
+  private async readPersisted(
+    key: string
+  ): Promise<CacheEntry<T> | undefined> {
+    if (!this.options.directory) {
+      return undefined;
+    }
+
+    const path = this.filePath(key);
+    try {
+      const raw = await fs.readFile(path, "utf8");
+      const entry = JSON.parse(raw) as CacheEntry<T>;
+      if (entry.key !== key) {
+        return undefined;
+      }
+      // Keep expired files around for one extra TTL so they can still serve
+      // as stale fallbacks, then drop them.
+      const staleDeadline = entry.expiresAt + this.options.ttlSeconds * 1000;
+      if (staleDeadline <= Date.now()) {
+        await fs.rm(path, { force: true });
+        return undefined;
+      }
+      return entry;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+        logger.warn("Failed to read search cache entry", { error });
+      }
+      return undefined;
+    }
+  }
+
+  private filePath(key: string): string {
+    const digest = createHash("sha256").update(key).digest("hex");
+    return join(this.options.directory!, `${digest}.json`);
+  }
+}
+
+export function buildSearchCacheKey(
+  source: MediaSource,
+  kind: "images" | "videos",
+  params: SearchImagesParams | SearchVideosParams
+): string {
+  const { locale, query, ...rest } = params;
+  const normalizedQuery = query.trim().toLowerCase().replace(/\s+/g, " ");
+  const filters = Object.entries(rest)
+    .filter(([, value]) => value !== undefined)
+    .map(([name, value]) => [
+      name,
+      Array.isArray(value) ? [...value].sort() : value,
+    ])
+    .sort(([a], [b]) => String(a).localeCompare(String(b)));
+
+  return JSON.stringify([
+    CACHE_FORMAT_VERSION,
+    source,
+    kind,
+    resolveLanguage(locale),
+    normalizedQuery,
+    filters,
+  ]);
+}
+
+export class CachingMediaProvider implements MediaProvider {
+  readonly id: MediaSource;
+  readonly displayName: string;
+  readonly attribution: string;
+  readonly license: MediaLicense;
+  readonly supportsSafeSearch: boolean;
+
+  constructor(
+    private readonly provider: MediaProvider,
+    private readonly imageCache: SearchCache<ImageSearchResult>,
+    private readonly videoCache: SearchCache<VideoSearchResult>
+  ) {
+    this.id = provider.id;
+    this.displayName = provider.displayName;
+    this.attribution = provider.attribution;
+    this.license = provider.license;
+    this.supportsSafeSearch = provider.supportsSafeSearch;
+  }
+
+  async searchImages(
+    params: SearchImagesParams,
+    options: RequestOptions = {}
+  ): Promise<CachedSearchResult<ImageSearchResult>> {
+    return this.withCache(
+      this.imageCache,
+      buildSearchCacheKey(this.id, "images", params),
+      () => this.provider.searchImages(params, options)
+    );
+  }
+
+  async searchVideos(
+    params: SearchVideosParams,
+    options: RequestOptions = {}
+  ): Promise<CachedSearchResult<VideoSearchResult>> {
+    return this.withCache(
+      this.videoCache,
+      buildSearchCacheKey(this.id, "videos", params),
+      () => this.provider.searchVideos(params, options)
+    );
+  }
+
+  getImage(
+    id: number,
+    options?: RequestOptions
+  ): Promise<MediaItemDetails<ImageResult> | null> {
+    return this.provider.getImage(id, options);
+  }
+
+  getVideo(
+    id: number,
+    options?: RequestOptions
+  ): Promise<MediaItemDetails<VideoResult> | null> {
+    return this.provider.getVideo(id, options);
+  }
+
+  private async withCache<T extends { rateLimit?: unknown }>(
+    cache: SearchCache<T>,
+    key: string,
+    load: () => Promise<T>
+  ): Promise<CachedSearchResult<T>> {
+    const result = await this.lookup(cache, key, load);
+    searchCacheLookups.inc({ provider: this.id, status: result.cacheStatus });
+    return result;
+  }
+
+  private async lookup<T extends { rateLimit?: unknown }>(
+    cache: SearchCache<T>,
+    key: string,
+    load: () => Promise<T>
+  ): Promise<CachedSearchResult<T>> {
+    if (!cache.enabled) {
+      return { ...(await load()), cacheStatus: "bypass" };
+    }
+
+    const cached = await cache.get(key);
+    if (cached) {
+      // Rate limit headers describe the original request, not this one.
+      const { rateLimit: _rateLimit, ...rest } = cached;
+      return { ...(rest as T), cacheStatus: "hit" };
+    }
+
+    let fresh: T;
+    try {
+      fresh = await load();
+    } catch (error) {
+      if (error instanceof UpstreamUnavailableError) {
+        const stale = await cache.getStale(key);
+        if (stale) {
+          logger.warn("Serving stale cached result while upstream is down", {
+            provider: this.displayName,
+          });
+          const { rateLimit: _rateLimit, ...rest } = stale;
+          return { ...(rest as T), cacheStatus: "stale" };
+        }
+      }
+      throw error;
+    }
+
+    await cache.set(key, fresh);
+    return { ...fresh, cacheStatus: "miss" };
+  }
+}
+
+export function withSearchCache(
+  provider: MediaProvider,
+  options: SearchCacheOptions = serverConfig.cache
+): CachingMediaProvider {
+  return new CachingMediaProvider(
+    provider,
+    new SearchCache<ImageSearchResult>(options),
+    new SearchCache<VideoSearchResult>(options)
+  );
+}
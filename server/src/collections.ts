@@ -0,0 +1,243 @@
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import { randomUUID } from "node:crypto";
+import { promises as fs } from "node:fs";
+import { dirname, resolve } from "node:path";
+import { serverConfig } from "./config.js";
+import {
+  Collection,
+  CollectionCredit,
+  CollectionItem,
+  CollectionSummary,
+  ImageResult,
+  MediaSource,
+  VideoResult,
+} from "./schemas.js";
+
+const STORE_FORMAT_VERSION = 2;
+
+type StoreFile = {
+  version: number;
+  collections: Collection[];
+};
+
+/** Version 1 stored the whole result, signed URLs included. */
+type LegacyCollectionItem = Omit<CollectionItem, "credit"> & {
+  snapshot: ImageResult | VideoResult;
+};
+
+export type CollectionItemKey = {
+  mediaType: "image" | "video";
+  id: number;
+  source: MediaSource;
+};
+
+/**
+ * Keeps named collections of media in a JSON file. Items are references plus
+ * the credit they were added with, so an item that later disappears upstream
+ * can still be credited.
+ */
+export class CollectionStore {
+  private readonly path: string;
+  private collections: Collection[] | null = null;
+  private loading: Promise<Collection[]> | null = null;
+  private writing: Promise<void> = Promise.resolve();
+
+  constructor(path: string) {
+    this.path = resolve(path);
+  }
+
+  async list(): Promise<Collection[]> {
+    return [...(await this.load())];
+  }
+
+  /** Finds a collection by ID or, failing that, by case-insensitive name. */
+  async get(reference: string): Promise<Collection> {
+    const collections = await this.load();
+    const normalized = reference.trim().toLowerCase();
+    const match =
+      collections.find((collection) => collection.id === reference) ??
+      collections.find(
+        (collection) => collection.name.toLowerCase() === normalized
+      );
+    if (!match) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `No collection named "${reference}" exists. Use list_collections to see the available collections.`
+      );
+    }
+    return match;
+  }
+
+  async create(
+    name: string,
+    description: string | undefined,
+    createdBy: string | null
+  ): Promise<Collection> {
+    const collections = await this.load();
+    const normalized = name.toLowerCase();
+    if (
+      collections.some(
+        (collection) => collection.name.toLowerCase() === normalized
+      )
+    ) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `A collection named "${name}" already exists.`
+      );
+    }
+
+    const now = new Date().toISOString();
+    const collection: Collection = {
+      id: randomUUID(),
+      name,
+      description: description || null,
+      createdBy,
+      createdAt: now,
+      updatedAt: now,
+      items: [],
+    };
+    collections.push(collection);
+    await this.persist();
+    return collection;
+  }
+
+  /** Appends items that are not already in the collection. */
+  async addItems(
+    reference: string,
+    items: CollectionItem[]
+  ): Promise<{ collection: Collection; added: number }> {
+    const collection = await this.get(reference);
+    let added = 0;
+    for (const item of items) {
+      if (collection.items.some((existing) => sameItem(existing, item))) {
+        continue;
+      }
+      collection.items.push(item);
+      added += 1;
+    }
+
+    if (added > 0) {
+      collection.updatedAt = new Date().toISOString();
+      await this.persist();
+    }
+    return { collection, added };
+  }
+
+  async removeItems(
+    reference: string,
+    keys: CollectionItemKey[]
+  ): Promise<{ collection: Collection; removed: number }> {
+    const collection = await this.get(reference);
+    const remaining = collection.items.filter(
+      (item) => !keys.some((key) => sameItem(item, key))
+    );
+    const removed = collection.items.length - remaining.length;
+
+    if (removed > 0) {
+      collection.items = remaining;
+      collection.updatedAt = new Date().toISOString();
+      await this.persist();
+    }
+    return { collection, removed };
+  }
+
+  private load(): Promise<Collection[]> {
+    this.loading ??= this.readFile();
+    return this.loading;
+  }
+
+  private async readFile(): Promise<Collection[]> {
+    let raw: string;
+    try {
+      raw = await fs.readFile(this.path, "utf8");
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        this.collections = [];
+        return this.collections;
+      }
+      throw error;
+    }
+
+    const parsed = JSON.parse(raw) as Partial<StoreFile>;
+    if (
+      (parsed.version !== 1 && parsed.version !== STORE_FORMAT_VERSION) ||
+      !Array.isArray(parsed.collections)
+    ) {
+      // Refuse to continue rather than overwrite a file we do not understand.
+      throw new Error(`Unrecognized collections file at ${this.path}.`);
+    }
+    this.collections =
+      parsed.version === 1
+        ? parsed.collections.map(upgradeCollection)
+        : parsed.collections;
+    return this.collections;
+  }
+
+  /** Writes the current state; saves are chained so they never interleave. */
+  private persist(): Promise<void> {
+    const write = this.writing.then(async () => {
+      const file: StoreFile = {
+        version: STORE_FORMAT_VERSION,
+        collections: this.collections ?? [],
+      };
+      const tempPath = `${this.path}.${process.pid}.tmp`;
+      await fs.mkdir(dirname(this.path), { recursive: true });
+      await fs.writeFile(tempPath, JSON.stringify(file, null, 2), "utf8");
+      await fs.rename(tempPath, this.path);
+    });
+    this.writing = write.catch(() => undefined);
+    return write;
+  }
+}
+
+export function summarizeCollection(
+  collection: Collection
+): CollectionSummary {
+  const imageCount = collection.items.filter(
+    (item) => item.mediaType === "image"
+  ).length;
+  return {
+    id: collection.id,
+    name: collection.name,
+    description: collection.description,
+    imageCount,
+    videoCount: collection.items.length - imageCount,
+    updatedAt: collection.updatedAt,
+  };
+}
+
+export function toCollectionItem(
+  mediaType: "image" | "video",
+  result: ImageResult | VideoResult,
+  addedAt: string
+): CollectionItem {
+  const creator =
+    "photographer" in result ? result.photographer : result.creator;
+  const credit: CollectionCredit = {
+    creatorName: creator.name,
+    creatorUrl: durableUrl(creator.profileUrl),
+    pageUrl: durableUrl(result.pageUrl),
+    tags: result.tags,
+  };
+  return { mediaType, id: result.id, source: result.source, addedAt, credit };
+}
+
+/** Drops URLs this server signs; they stop working when the key changes. */
+function durableUrl(url: string): string | null {
+  const base = serverConfig.publicBaseUrl.replace(/\/+$/, "");
+  return url.startsWith(`${base}/`) ? null : url;
+}
+
+function upgradeCollection(collection: Collection): Collection {
+  const items = collection.items as unknown as LegacyCollectionItem[];
+  return {
+    ...collection,
+    items: items.map(({ mediaType, snapshot, addedAt }) =>
+      toCollectionItem(mediaType, snapshot, addedAt)
+    ),
+  };
+}
+
+function sameItem(a: CollectionItemKey, b: CollectionItemKey): boolean {
+  return a.mediaType === b.mediaType && a.id === b.id && a.source === b.source;
+}
@@ -1,20 +1,570 @@
 import { config as loadEnv } from "dotenv";
+import { readFileSync } from "node:fs";
+import { extname, resolve as resolvePath } from "node:path";
+import { parse as parseYaml } from "yaml";
+import { z } from "zod";
 
 loadEnv();
 
-const REQUIRED_ENV_VARS = ["PIXABAY_API_KEY"] as const;
+export const logLevelValues = ["debug", "info", "warn", "error"] as const;
 
-for (const key of REQUIRED_ENV_VARS) {
-  if (!process.env[key] || process.env[key]?.trim().length === 0) {
-    throw new Error(`Missing required environment variable: ${key}`);
+export type LogLevel = (typeof logLevelValues)[number];
+
+const transportValues = ["http", "stdio"] as const;
+
+const REDACTED = "[REDACTED]";
+
+type RawConfig = Record<string, unknown>;
+
+/** Env vars that override a single config path; values are parsed by zod. */
+const ENV_OVERRIDES: Array<[envVar: string, path: string]> = [
+  ["MCP_TRANSPORT", "transport"],
+  ["PORT", "port"],
+  ["HOST", "host"],
+  ["PUBLIC_BASE_URL", "publicBaseUrl"],
+  ["LOG_LEVEL", "logging.level"],
+  ["METRICS_ENABLED", "metrics.enabled"],
+  ["PIXABAY_API_KEY", "pixabayApiKey"],
+  ["PIXABAY_BASE_URL", "pixabayBaseUrl"],
+  ["PIXABAY_VIDEO_BASE_URL", "pixabayVideoBaseUrl"],
+  ["PEXELS_API_KEY", "pexelsApiKey"],
+  ["PEXELS_BASE_URL", "pexelsBaseUrl"],
+  ["PEXELS_VIDEO_BASE_URL", "pexelsVideoBaseUrl"],
+  ["DEFAULT_LOCALE", "defaultLocale"],
+  ["DEFAULT_PER_PAGE", "defaultPerPage"],
+  ["MAX_PER_PAGE", "maxPerPage"],
+  ["MCP_ENABLED_TOOLS", "tools.enabled"],
+  ["QUERY_REWRITE_ENABLED", "queryRewrite.enabled"],
+  ["QUERY_REWRITE_MAX_ATTEMPTS", "queryRewrite.maxAttempts"],
+  ["SAFETY_FORCE_SAFESEARCH", "safety.forceSafeSearch"],
+  ["SAFETY_BLOCKED_TERMS", "safety.blockedTerms"],
+  ["SAFETY_QUERY_ACTION", "safety.queryAction"],
+  ["RANKING_MAX_PER_CONTRIBUTOR", "ranking.maxPerContributor"],
+  ["MEDIA_LIBRARY_DIR", "library.directory"],
+  ["MEDIA_LIBRARY_RESCAN_SECONDS", "library.rescanSeconds"],
+  ["MEDIA_PROXY_ENABLED", "mediaProxy.enabled"],
+  ["MEDIA_PROXY_CACHE_DIR", "mediaProxy.directory"],
+  ["MEDIA_PROXY_CACHE_MAX_MB", "mediaProxy.maxMegabytes"],
+  ["URL_SIGNING_KEY", "urlSigningKey"],
+  ["MCP_SESSION_IDLE_SECONDS", "sessions.idleTimeoutSeconds"],
+  ["MCP_MAX_SESSIONS", "sessions.maxSessions"],
+  ["MCP_SESSION_MAX_EVENTS", "sessions.maxEvents"],
+  ["QUOTA_PER_MINUTE", "quotas.tiers.default.perMinute"],
+  ["QUOTA_PER_DAY", "quotas.tiers.default.perDay"],
+  ["COLLECTIONS_FILE", "collections.file"],
+  ["MCP_API_TOKENS", "auth.tokens"],
+  ["AUTH_ISSUER", "auth.issuer"],
+  ["AUTH_JWKS_URL", "auth.jwksUrl"],
+  ["AUTH_AUDIENCE", "auth.audience"],
+  ["AUTH_REQUIRED_SCOPES", "auth.requiredScopes"],
+  ["PIXABAY_CACHE_TTL_SECONDS", "cache.ttlSeconds"],
+  ["PIXABAY_CACHE_MAX_ENTRIES", "cache.maxEntries"],
+  ["PIXABAY_CACHE_DIR", "cache.directory"],
+  ["PIXABAY_RATE_LIMIT_RESERVE", "rateLimit.reserve"],
+  ["PIXABAY_RATE_LIMIT_MAX_WAIT_MS", "rateLimit.maxWaitMs"],
+  ["PIXABAY_TIMEOUT_MS", "upstream.timeoutMs"],
+  ["PIXABAY_MAX_RETRIES", "upstream.maxRetries"],
+  ["PIXABAY_RETRY_BASE_DELAY_MS", "upstream.retryBaseDelayMs"],
+  ["PIXABAY_BREAKER_FAILURE_THRESHOLD", "upstream.breakerFailureThreshold"],
+  ["PIXABAY_BREAKER_COOLDOWN_MS", "upstream.breakerCooldownMs"],
+];
+
+// Env values arrive as strings; file values are already typed.
+const toNumber = (value: unknown) =>
+  typeof value === "string" && value.trim() !== ""
+    ? Number(value.trim())
+    : value;
+
+const toBoolean = (value: unknown) => {
+  if (typeof value !== "string") return value;
+  const normalized = value.trim().toLowerCase();
+  if (["1", "true", "yes", "on"].includes(normalized)) return true;
+  if (["0", "false", "no", "off"].includes(normalized)) return false;
+  return value;
+};
+
+const toList = (value: unknown) =>
+  typeof value === "string"
+    ? value
+        .split(",")
+        .map((entry) => entry.trim())
+        .filter((entry) => entry.length > 0)
+    : value;
+
+const toLowerCase = (value: unknown) =>
+  typeof value === "string" ? value.trim().toLowerCase() : value;
+
+const count = (fallback: number) =>
+  z.preprocess(toNumber, z.number().int().min(0)).default(fallback);
+
+const flag = (fallback: boolean) =>
+  z.preprocess(toBoolean, z.boolean()).default(fallback);
+
+const list = () => z.preprocess(toList, z.array(z.string().min(1)));
+
+const optionalText = () => z.string().trim().min(1).nullable().default(null);
+
+const optionalUrl = () => z.string().trim().url().nullable().default(null);
+
+const quotaTierSchema = z
+  .object({ perMinute: count(0), perDay: count(0) })
+  .strict();
+
+const configSchema = z
+  .object({
+    transport: z
+      .preprocess(toLowerCase, z.enum(transportValues))
+      .default("http"),
+    port: z
+      .preprocess(toNumber, z.number().int().min(1).max(65535))
+      .default(3333),
+    host: z.string().trim().min(1).default("0.0.0.0"),
+    // Absolute origin clients use to reach this server, for library and
+    // proxied media URLs and the OAuth resource identifier.
+    publicBaseUrl: optionalUrl(),
+    logging: z
+      .object({
+        level: z
+          .preprocess(toLowerCase, z.enum(logLevelValues))
+          .default("info"),
+      })
+      .strict()
+      .default({}),
+    // Off by default: the numbers name tools, clients and upstreams.
+    metrics: z.object({ enabled: flag(false) }).strict().default({}),
+    pixabayApiKey: z
+      .string({
+        required_error:
+          "A Pixabay API key is required; set PIXABAY_API_KEY or pixabayApiKey in the config file.",
+      })
+      .trim()
+      .min(1),
+    // Point these at a local stand-in to run without the real APIs.
+    pixabayBaseUrl: z.string().url().default("https://pixabay.com/api/"),
+    pixabayVideoBaseUrl: z
+      .string()
+      .url()
+      .default("https://pixabay.com/api/videos/"),
+    pexelsApiKey: optionalText(),
+    // Signs media URLs handed to clients. Random per process when unset, so
+    // it is required whenever signed URLs are kept across restarts.
+    urlSigningKey: optionalText(),
+    pexelsBaseUrl: z.string().url().default("https://api.pexels.com/v1/"),
+    pexelsVideoBaseUrl: z
+      .string()
+      .url()
+      .default("https://api.pexels.com/videos/"),
+    defaultLocale: z.string().trim().min(2).default("en"),
+    defaultPerPage: z
+      .preprocess(toNumber, z.number().int().min(3))
+      .default(6),
+    maxPerPage: z.preprocess(toNumber, z.number().int().min(3)).default(20),
+    // Pixabay never returns hits past this offset for a query.
+    maxAccessibleHits: z
+      .preprocess(toNumber, z.number().int().min(1))
+      .default(500),
+    tools: z
+      .object({
+        // Every tool is registered when unset.
+        enabled: list().nullable().default(null),
+        // Input values applied when a call leaves them out, keyed by tool.
+        defaults: z
+          .record(z.string(), z.record(z.string(), z.unknown()))
+          .default({}),
+      })
+      .strict()
+      .default({}),
+    queryRewrite: z
+      .object({
+        enabled: flag(true),
+        // Searches run per call while broadening a query with no hits.
+        maxAttempts: z
+          .preprocess(toNumber, z.number().int().min(1).max(6))
+          .default(4),
+      })
+      .strict()
+      .default({}),
+    safety: z
+      .object({
+        forceSafeSearch: flag(false),
+        blockedTerms: list().default([]),
+        // Refuse queries naming a blocked term, or search without the term.
+        queryAction: z
+          .preprocess(toLowerCase, z.enum(["reject", "rewrite"]))
+          .default("reject"),
+      })
+      .strict()
+      .default({}),
+    ranking: z
+      .object({
+        // Results per contributor before the rest move to the end; 0 = no cap.
+        maxPerContributor: count(2),
+      })
+      .strict()
+      .default({}),
+    library: z
+      .object({
+        directory: optionalText(),
+        rescanSeconds: count(300),
+      })
+      .strict()
+      .default({}),
+    mediaProxy: z
+      .object({
+        enabled: flag(false),
+        directory: z.string().trim().min(1).default(".cache/media"),
+        maxMegabytes: count(1024),
+      })
+      .strict()
+      .default({}),
+    sessions: z
+      .object({
+        // Both must be at least 1, or every session would close at once.
+        idleTimeoutSeconds: z
+          .preprocess(toNumber, z.number().int().min(1))
+          .default(30 * 60),
+        maxSessions: z
+          .preprocess(toNumber, z.number().int().min(1))
+          .default(1000),
+        // Messages kept per session for clients resuming a dropped SSE stream.
+        maxEvents: count(200),
+      })
+      .strict()
+      .default({}),
+    quotas: z
+      .object({
+        tiers: z.record(z.string(), quotaTierSchema).default({}),
+        // Client IDs (from auth) or IP addresses mapped to tier names.
+        clientTiers: z.record(z.string(), z.string()).default({}),
+      })
+      .strict()
+      .default({}),
+    collections: z
+      .object({
+        file: z.string().trim().min(1).default(".data/collections.json"),
+      })
+      .strict()
+      .default({}),
+    auth: z
+      .object({
+        // Static API tokens, each `name:secret` or a bare secret.
+        tokens: list().default([]),
+        issuer: optionalUrl(),
+        // Discovered from the issuer's metadata when unset.
+        jwksUrl: optionalUrl(),
+        audience: optionalUrl(),
+        requiredScopes: list().default([]),
+      })
+      .strict()
+      .default({}),
+    cache: z
+      .object({
+        // Pixabay asks API consumers to cache results for 24 hours.
+        ttlSeconds: count(24 * 60 * 60),
+        maxEntries: count(500),
+        directory: optionalText(),
+      })
+      .strict()
+      .default({}),
+    rateLimit: z
+      .object({
+        reserve: count(2),
+        maxWaitMs: count(5000),
+      })
+      .strict()
+      .default({}),
+    upstream: z
+      .object({
+        timeoutMs: count(8000),
+        maxRetries: count(2),
+        retryBaseDelayMs: count(250),
+        breakerFailureThreshold: count(5),
+        breakerCooldownMs: count(30000),
+      })
+      .strict()
+      .default({}),
+  })
+  .strict()
+  .superRefine((config, context) => {
+    if (config.defaultPerPage > config.maxPerPage) {
+      context.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["defaultPerPage"],
+        message: `defaultPerPage must not exceed maxPerPage (${config.maxPerPage}).`,
+      });
+    }
+    if (
+      !config.urlSigningKey &&
+      (config.mediaProxy.enabled || config.cache.directory)
+    ) {
+      context.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["urlSigningKey"],
+        message:
+          "Set URL_SIGNING_KEY when the media proxy or a search cache directory is enabled; with a random per-process key their signed URLs break after a restart.",
+      });
+    }
+  })
+  .transform(({ mediaProxy, publicBaseUrl, auth, ...config }) => {
+    const baseUrl = (
+      publicBaseUrl ?? `http://127.0.0.1:${config.port}`
+    ).replace(/\/+$/, "");
+    return {
+      ...config,
+      publicBaseUrl: baseUrl,
+      mediaProxy: {
+        enabled: mediaProxy.enabled,
+        directory: mediaProxy.directory,
+        maxBytes: mediaProxy.maxMegabytes * 1024 * 1024,
+      },
+      auth: { ...auth, audience: auth.audience ?? `${baseUrl}/mcp` },
+    };
+  });
+
+export type ServerConfig = z.output<typeof configSchema>;
+
+/** Raised with a report that lists every problem in the configuration. */
+export class ConfigError extends Error {
+  constructor(readonly problems: string[]) {
+    super(
+      `Invalid configuration:\n${problems.map((problem) => `  - ${problem}`).join("\n")}`
+    );
+    this.name = "ConfigError";
   }
 }
 
-export const serverConfig = {
-  pixabayApiKey: process.env.PIXABAY_API_KEY!.trim(),
-  pixabayBaseUrl: "https://pixabay.com/api/",
-  pixabayVideoBaseUrl: "https://pixabay.com/api/videos/",
-  defaultLocale: "en",
-  defaultPerPage: 6,
-  maxPerPage: 20,
-};
+/**
+ * Resolves the configuration from built-in defaults, then the optional config
+ * file (`--config <path>` or CONFIG_FILE, JSON or YAML), then environment
+ * variables, then command line flags.
+ */
+export function loadServerConfig(
+  argv: string[] = process.argv.slice(2),
+  env: NodeJS.ProcessEnv = process.env
+): ServerConfig {
+  const sources = new Map<string, string>();
+  const problems: string[] = [];
+
+  // The default tier is seeded so overriding one of its limits keeps the other.
+  const raw: RawConfig = {
+    quotas: { tiers: { default: { perMinute: 60, perDay: 0 } } },
+  };
+
+  const configFile = readFlag(argv, "--config") ?? env.CONFIG_FILE?.trim();
+  if (configFile) {
+    try {
+      const fromFile = readConfigFile(configFile);
+      recordSources(fromFile, [], configFile, sources);
+      mergeInto(raw, fromFile);
+    } catch (error) {
+      problems.push(
+        `${configFile}: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  for (const [envVar, path] of ENV_OVERRIDES) {
+    const value = env[envVar]?.trim();
+    if (value) {
+      setPath(raw, path, value);
+      sources.set(path, envVar);
+    }
+  }
+  for (const [envVar, path, parse] of [
+    ["QUOTA_TIERS", "quotas.tiers", parseQuotaTiers],
+    ["QUOTA_CLIENT_TIERS", "quotas.clientTiers", parseEntries],
+  ] as const) {
+    const value = env[envVar]?.trim();
+    if (!value) continue;
+    try {
+      const parsed = parse(value);
+      recordSources(parsed, path.split("."), envVar, sources);
+      mergeInto(raw, setPath({}, path, parsed));
+    } catch (error) {
+      problems.push(`${path} (from ${envVar}): ${(error as Error).message}`);
+    }
+  }
+
+  const transport = argv.includes("--stdio")
+    ? "stdio"
+    : readFlag(argv, "--transport");
+  if (transport) {
+    raw.transport = transport;
+    sources.set("transport", "--transport");
+  }
+
+  const parsed = configSchema.safeParse(raw);
+  if (!parsed.success) {
+    for (const issue of parsed.error.issues) {
+      const path = issue.path.join(".") || "(top level)";
+      const source = sourceOf(issue.path.map(String), sources);
+      problems.push(
+        `${path}: ${issue.message}${source ? ` (from ${source})` : ""}`
+      );
+    }
+  }
+  if (problems.length > 0 || !parsed.success) {
+    throw new ConfigError(problems);
+  }
+  return parsed.data;
+}
+
+/** The resolved configuration with API keys and token secrets masked. */
+export function redactConfig(config: ServerConfig): ServerConfig {
+  return {
+    ...config,
+    pixabayApiKey: REDACTED,
+    pexelsApiKey: config.pexelsApiKey ? REDACTED : null,
+    urlSigningKey: config.urlSigningKey ? REDACTED : null,
+    auth: {
+      ...config.auth,
+      tokens: config.auth.tokens.map((entry) => {
+        const separator = entry.indexOf(":");
+        return separator > 0
+          ? `${entry.slice(0, separator)}:${REDACTED}`
+          : REDACTED;
+      }),
+    },
+  };
+}
+
+/** Reads `name=perMinute/perDay` entries, e.g. `trusted=600/20000`. */
+function parseQuotaTiers(
+  value: string
+): Record<string, { perMinute: number; perDay: number }> {
+  const tiers: Record<string, { perMinute: number; perDay: number }> = {};
+  for (const entry of toList(value) as string[]) {
+    const match = /^([\w-]+)=(\d+)\/(\d+)$/.exec(entry);
+    if (!match) {
+      throw new Error("Entries must look like name=perMinute/perDay.");
+    }
+    tiers[match[1]!] = {
+      perMinute: Number.parseInt(match[2]!, 10),
+      perDay: Number.parseInt(match[3]!, 10),
+    };
+  }
+  return tiers;
+}
+
+/** Reads comma separated `key=value` entries into a lookup table. */
+function parseEntries(value: string): Record<string, string> {
+  const map: Record<string, string> = {};
+  for (const entry of toList(value) as string[]) {
+    const separator = entry.lastIndexOf("=");
+    if (separator <= 0) {
+      throw new Error("Entries must look like key=value.");
+    }
+    map[entry.slice(0, separator).trim()] = entry.slice(separator + 1).trim();
+  }
+  return map;
+}
+
+function readConfigFile(path: string): RawConfig {
+  const text = readFileSync(resolvePath(path), "utf8");
+  const extension = extname(path).toLowerCase();
+  let parsed: unknown;
+  if (extension === ".json") {
+    parsed = JSON.parse(text);
+  } else if (extension === ".yaml" || extension === ".yml") {
+    parsed = parseYaml(text);
+  } else {
+    throw new Error("Config files must be .json, .yaml or .yml.");
+  }
+  if (parsed === null || parsed === undefined) {
+    return {};
+  }
+  if (!isPlainObject(parsed)) {
+    throw new Error("The config file must contain an object at the top level.");
+  }
+  return parsed;
+}
+
+/** Reads `--name value` or `--name=value` from the command line. */
+function readFlag(argv: string[], name: string): string | undefined {
+  let value: string | undefined;
+  argv.forEach((arg, index) => {
+    if (arg === name) {
+      value = argv[index + 1];
+    } else if (arg.startsWith(`${name}=`)) {
+      value = arg.slice(name.length + 1);
+    }
+  });
+  return value;
+}
+
+function isPlainObject(value: unknown): value is RawConfig {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/** Deep merges objects; arrays and scalars from `source` replace `target`'s. */
+function mergeInto(target: RawConfig, source: RawConfig): RawConfig {
+  for (const [key, value] of Object.entries(source)) {
+    const existing = target[key];
+    target[key] =
+      isPlainObject(existing) && isPlainObject(value)
+        ? mergeInto({ ...existing }, value)
+        : value;
+  }
+  return target;
+}
+
+function setPath(target: RawConfig, path: string, value: unknown): RawConfig {
+  const keys = path.split(".");
+  let node = target;
+  for (const key of keys.slice(0, -1)) {
+    if (!isPlainObject(node[key])) {
+      node[key] = {};
+    }
+    node = node[key] as RawConfig;
+  }
+  node[keys.at(-1)!] = value;
+  return target;
+}
+
+function recordSources(
+  value: unknown,
+  path: string[],
+  source: string,
+  sources: Map<string, string>
+) {
+  if (path.length > 0) {
+    sources.set(path.join("."), source);
+  }
+  if (isPlainObject(value)) {
+    for (const [key, child] of Object.entries(value)) {
+      recordSources(child, [...path, key], source, sources);
+    }
+  }
+}
+
+/** Finds where the value at `path`, or its nearest parent, was set. */
+function sourceOf(
+  path: string[],
+  sources: Map<string, string>
+): string | undefined {
+  for (let length = path.length; length > 0; length -= 1) {
+    const source = sources.get(path.slice(0, length).join("."));
+    if (source) return source;
+  }
+  return undefined;
+}
+
+function initializeConfig(): ServerConfig {
+  let config: ServerConfig;
+  try {
+    config = loadServerConfig();
+  } catch (error) {
+    if (!(error instanceof ConfigError)) throw error;
+    // The logger depends on this config, so report straight to stderr.
+    process.stderr.write(`${error.message}\n`);
+    process.exit(1);
+  }
+
+  if (process.argv.includes("--print-config")) {
+    process.stdout.write(`${JSON.stringify(redactConfig(config), null, 2)}\n`);
+    process.exit(0);
+  }
+  return config;
+}
+
+export const serverConfig = initializeConfig();
@@ -1,38 +1,193 @@
-import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
-import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
-import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
-import express, { type Request } from "express";
+#!/usr/bin/env node
+import {
+  McpServer,
+  type ToolCallback,
+} from "@modelcontextprotocol/sdk/server/mcp.js";
+import { requireBearerAuth } from "@modelcontextprotocol/sdk/server/auth/middleware/bearerAuth.js";
+import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
+import {
+  CallToolResult,
+  ErrorCode,
+  McpError,
+} from "@modelcontextprotocol/sdk/types.js";
+import express, { type Request, type RequestHandler } from "express";
+import { randomUUID } from "node:crypto";
+import type { Server as HttpServer } from "node:http";
 import { promises as fs } from "node:fs";
 import { dirname, join, resolve as resolvePath } from "node:path";
 import { fileURLToPath } from "node:url";
-import { serverConfig } from "./config.js";
+import type { AnyZodObject, ZodRawShape } from "zod";
+import { ConfigError, serverConfig } from "./config.js";
 import {
+  AttributionFormat,
+  Collection,
+  CollectionItem,
+  CombinedSearchInput,
+  ContentPolicyDecision,
+  MediaDetailsInput,
   MediaSearchStructuredContent,
+  PaginationInfo,
+  QueryRewrite,
+  SearchNotice,
   SearchImagesInput,
+  SearchMediaInput,
+  SearchVideosInput,
+  attributionFormatValues,
+  attributionInputSchema,
+  combinedSearchInputSchema,
+  createCollectionInputSchema,
+  listCollectionsInputSchema,
+  mediaDetailsInputSchema,
   searchImagesInputSchema,
+  searchVideosInputSchema,
+  showCollectionInputSchema,
+  updateCollectionItemsInputSchema,
 } from "./schemas.js";
-import { PixabayClient } from "./pixabay.js";
+import { CreditItem, buildCreditExport } from "./attribution.js";
+import {
+  AccessTokenVerifier,
+  PROTECTED_RESOURCE_METADATA_PATH,
+  buildProtectedResourceMetadata,
+  isAuthEnabled,
+  principalOf,
+} from "./auth.js";
+import {
+  CollectionStore,
+  summarizeCollection,
+  toCollectionItem,
+} from "./collections.js";
+import { LIBRARY_FILE_ROUTE, LocalLibraryProvider } from "./library.js";
+import {
+  currentRequestId,
+  logger,
+  redactUrl,
+  runWithRequestContext,
+} from "./logger.js";
+import {
+  Gauge,
+  METRICS_CONTENT_TYPE,
+  METRICS_ROUTE,
+  renderMetrics,
+  toolCallDuration,
+  toolCalls,
+  widgetResourceReads,
+} from "./metrics.js";
+import { MEDIA_PROXY_ROUTE, MediaProxy, mediaProxyPath } from "./proxy.js";
+import {
+  MediaDetailsResult,
+  MediaImageSearchResult,
+  MediaVideoSearchResult,
+  createMediaSearchService,
+} from "./media.js";
+import {
+  imageInputFor,
+  literalPlan,
+  planQuery,
+  searchWithBroadening,
+  videoInputFor,
+} from "./query.js";
+import { ClientQuotas, quotaMiddleware } from "./quotas.js";
+import { ContentPolicy, QueryReview } from "./safety.js";
+import { RateLimitExceededError } from "./scheduler.js";
+import { SessionRegistry } from "./sessions.js";
+import { hasValidSignature } from "./signing.js";
 
 const PACKAGE_VERSION = "0.1.0";
 const IMAGE_TOOL_NAME = "get_internet_images";
 const IMAGE_TOOL_TITLE = "Get Internet Images";
 const IMAGE_TOOL_DESCRIPTION =
-  "Retrieves royalty-free images from trusted internet sources (powered by Pixabay) that match the user's description.";
+  "Retrieves royalty-free images from the team's media library when configured, otherwise from trusted stock sources (Pixabay by default, or Pexels when configured) that match the user's description. Supports photo, illustration and vector results with category, color, size, editor's choice and ordering filters. Pass `page` to continue a previous search when more results are available, and `source` to pick a provider (\"library\", \"pixabay\", \"pexels\") or \"all\" to merge them. Set `multilingual` to also search in English when the user's language is not English. Set `ranking` to rerank Pixabay results by `relevance` to the query, `popular` or `diverse` (contributors take turns) and collapse near-duplicate shots; without it the source's own order is kept.";
 const VIDEO_TOOL_NAME = "get_internet_videos";
 const VIDEO_TOOL_TITLE = "Get Internet Videos";
 const VIDEO_TOOL_DESCRIPTION =
-  "Retrieves royalty-free web videos (powered by Pixabay) that match the user's description and play inline.";
+  "Retrieves royalty-free videos from the team's media library when configured, otherwise from the web (Pixabay by default, or Pexels when configured) that match the user's description and play inline. Supports film vs. animation, category, duration, minimum resolution and ordering filters. Pass `page` to continue a previous search when more results are available, and `source` to pick a provider (\"library\", \"pixabay\", \"pexels\") or \"all\" to merge them. Set `multilingual` to also search in English when the user's language is not English. Set `ranking` to rerank Pixabay results by `relevance` to the query, `popular` or `diverse` (contributors take turns) and collapse near-duplicate shots; without it the source's own order is kept.";
+const MEDIA_TOOL_NAME = "get_internet_media";
+const MEDIA_TOOL_TITLE = "Get Internet Media";
+const MEDIA_TOOL_DESCRIPTION =
+  "Searches images and videos together for the user's description and shows both in one gallery. `per_page` is the combined number of results, split by `video_share` (0 = only images, 1 = only videos, default 0.5) unless `image_count` or `video_count` pins a side. Image-only filters (orientation, image_type, colors) and video-only filters (video_type, durations) apply to their side; if one side fails the other is still returned with a note. Set `multilingual` to also search in English when the user's language is not English. Set `ranking` to rerank Pixabay results by `relevance` to the query, `popular` or `diverse` (contributors take turns) and collapse near-duplicate shots; without it the source's own order is kept.";
+// Stock APIs reject pages smaller than this, so a non-empty side never goes
+// below it.
+const MIN_RESULTS_PER_KIND = 3;
+const ATTRIBUTION_TOOL_NAME = "export_attribution";
+const ATTRIBUTION_TOOL_TITLE = "Export Attribution";
+const ATTRIBUTION_TOOL_DESCRIPTION =
+  "Returns ready-to-paste credits for media the user wants to publish: HTML, Markdown, plain text and schema.org ImageObject/VideoObject JSON-LD naming each contributor, linking the asset page and stating the license. Pass `items` (id, media_type and source) or omit it to credit the most recent result set.";
+// Result sets remembered for export_attribution, keyed by MCP session.
+const MAX_REMEMBERED_RESULT_SETS = 100;
+const DETAILS_TOOL_NAME = "get_media_details";
+const DETAILS_TOOL_TITLE = "Get Media Details";
+const DETAILS_TOOL_DESCRIPTION =
+  "Fetches one image or video by the ID shown in earlier results (e.g. \"image 12345\") without re-running the search. Returns all available renditions, dimensions, tags, contributor, stats and license terms, and shows the item in the gallery. Pass the `source` the item came from when it is not the default provider.";
+const CREATE_COLLECTION_TOOL_NAME = "create_collection";
+const CREATE_COLLECTION_TOOL_TITLE = "Create Collection";
+const CREATE_COLLECTION_TOOL_DESCRIPTION =
+  "Creates a named collection (moodboard) that keeps media across conversations. Add items to it with add_to_collection.";
+const ADD_TO_COLLECTION_TOOL_NAME = "add_to_collection";
+const ADD_TO_COLLECTION_TOOL_TITLE = "Add to Collection";
+const ADD_TO_COLLECTION_TOOL_DESCRIPTION =
+  "Saves images or videos from earlier results into a collection, referenced by its name or ID. Pass each item's id, media_type and, when it is not the default provider, source. Each item is saved as a reference with its credit, and show_collection fetches it again with fresh links.";
+const REMOVE_FROM_COLLECTION_TOOL_NAME = "remove_from_collection";
+const REMOVE_FROM_COLLECTION_TOOL_TITLE = "Remove from Collection";
+const REMOVE_FROM_COLLECTION_TOOL_DESCRIPTION =
+  "Removes images or videos from a collection, referenced by its name or ID.";
+const LIST_COLLECTIONS_TOOL_NAME = "list_collections";
+const LIST_COLLECTIONS_TOOL_TITLE = "List Collections";
+const LIST_COLLECTIONS_TOOL_DESCRIPTION =
+  "Lists the saved collections with their IDs, descriptions and item counts.";
+const SHOW_COLLECTION_TOOL_NAME = "show_collection";
+const SHOW_COLLECTION_TOOL_TITLE = "Show Collection";
+const SHOW_COLLECTION_TOOL_DESCRIPTION =
+  "Shows the media saved in a collection in the gallery, referenced by its name or ID. Pass `page` to continue through large collections.";
+// Input schemas by tool, used to check the `tools` section of the config.
+const TOOL_INPUT_SCHEMAS: Record<string, AnyZodObject> = {
+  [IMAGE_TOOL_NAME]: searchImagesInputSchema,
+  [VIDEO_TOOL_NAME]: searchVideosInputSchema,
+  [MEDIA_TOOL_NAME]: combinedSearchInputSchema,
+  [ATTRIBUTION_TOOL_NAME]: attributionInputSchema,
+  [DETAILS_TOOL_NAME]: mediaDetailsInputSchema,
+  [CREATE_COLLECTION_TOOL_NAME]: createCollectionInputSchema,
+  [ADD_TO_COLLECTION_TOOL_NAME]: updateCollectionItemsInputSchema,
+  [REMOVE_FROM_COLLECTION_TOOL_NAME]: updateCollectionItemsInputSchema,
+  [LIST_COLLECTIONS_TOOL_NAME]: listCollectionsInputSchema,
+  [SHOW_COLLECTION_TOOL_NAME]: showCollectionInputSchema,
+};
 const RESOURCE_NAME = "pixabay-image-gallery";
 const OUTPUT_TEMPLATE_URI = "ui://widget/pixabay-image-gallery.html";
 const WIDGET_DESCRIPTION =
   "Displays an inline gallery of royalty-free images and videos sourced from the web with playback controls and attribution.";
 
+// Incoming X-Request-Id values are reused only if they look like IDs.
+const REQUEST_ID_PATTERN = /^[\w.-]{1,128}$/;
+
+// How long in-flight requests may run after a shutdown signal.
+const SHUTDOWN_GRACE_MS = 10_000;
+
 const __dirname = dirname(fileURLToPath(new URL(import.meta.url)));
 const WEB_DIST_DIR = resolvePath(__dirname, "../../web/dist");
 const SCRIPT_FILENAME = "component.js";
 const STYLE_FILENAME = "component.css";
 
-const pixabayClient = new PixabayClient();
+// Over stdio, stdout carries the protocol, so every log line goes to stderr.
+if (serverConfig.transport === "stdio") {
+  console.log = console.error;
+  console.info = console.error;
+  console.debug = console.error;
+}
+
+const library = serverConfig.library.directory
+  ? new LocalLibraryProvider(serverConfig.library.directory)
+  : null;
+const mediaProxy = serverConfig.mediaProxy.enabled
+  ? new MediaProxy(serverConfig.mediaProxy)
+  : null;
+const contentPolicy = new ContentPolicy(serverConfig.safety);
+const mediaService = createMediaSearchService(
+  contentPolicy,
+  library,
+  mediaProxy
+);
+const recentResults = new Map<string, CreditItem[]>();
+const collections = new CollectionStore(serverConfig.collections.file);
 
 async function loadWidgetHtml(): Promise<string> {
   const [scriptSource, styleSource] = await Promise.all([
@@ -97,23 +252,377 @@ function resolveLocale(meta: unknown): string {
 }
 
 type StructuredContentArgs = {
-  input: SearchImagesInput;
-  imageResult?: Awaited<ReturnType<PixabayClient["searchImages"]>>;
-  videoResult?: Awaited<ReturnType<PixabayClient["searchVideos"]>>;
+  input: SearchMediaInput;
+  notices?: SearchNotice[];
+  imageResult?: MediaImageSearchResult;
+  videoResult?: MediaVideoSearchResult;
+  rewrite?: QueryRewrite;
+  policy?: ContentPolicyDecision;
 };
 
 function toStructuredContent({
   input,
+  notices = [],
   imageResult,
   videoResult,
+  rewrite,
+  policy,
 }: StructuredContentArgs): MediaSearchStructuredContent {
+  if (policy?.action === "rewritten") {
+    notices = [
+      {
+        code: "policy_rewritten",
+        message: `This server's content policy removed ${policy.matchedTerms.map((term) => `"${term}"`).join(", ")} from the query.`,
+      },
+      ...notices,
+    ];
+  }
+  if (rewrite && rewrite.attempts.length > 1) {
+    notices = [
+      {
+        code: "query_broadened",
+        message: `Nothing matched "${rewrite.attempts[0]}", so the search was broadened to "${rewrite.query}".`,
+      },
+      ...notices,
+    ];
+  }
+  const sources = [
+    ...new Set([
+      ...(imageResult?.sources ?? []),
+      ...(videoResult?.sources ?? []),
+    ]),
+  ];
+
   return {
     query: input.query,
     imageCount: imageResult?.results.length ?? 0,
     videoCount: videoResult?.results.length ?? 0,
     images: imageResult?.results ?? [],
     videos: videoResult?.results ?? [],
-    attribution: "Media provided by Pixabay under the Pixabay License.",
+    pagination: mergePagination(
+      input,
+      imageResult?.pagination,
+      videoResult?.pagination
+    ),
+    filters: { ...videoResult?.filters, ...imageResult?.filters },
+    notices: [
+      ...notices,
+      ...(imageResult?.notices ?? []),
+      ...(videoResult?.notices ?? []),
+    ],
+    sources,
+    attribution: mediaService.attributionFor(sources),
+    rewrite,
+    languages: [
+      ...new Set([
+        ...(imageResult?.languages ?? []),
+        ...(videoResult?.languages ?? []),
+      ]),
+    ],
+    policy,
+  };
+}
+
+/** Rewrites descriptive queries into keywords unless the config turns it off. */
+function planFor(query: string) {
+  const { enabled, maxAttempts } = serverConfig.queryRewrite;
+  return enabled ? planQuery(query, maxAttempts) : literalPlan(query);
+}
+
+function rememberResults(
+  sessionId: string | undefined,
+  content: MediaSearchStructuredContent
+) {
+  const items: CreditItem[] = [
+    ...content.images.map((result) => ({
+      mediaType: "image" as const,
+      result,
+    })),
+    ...content.videos.map((result) => ({
+      mediaType: "video" as const,
+      result,
+    })),
+  ];
+  if (items.length === 0) {
+    return;
+  }
+
+  const key = sessionId ?? "";
+  recentResults.delete(key);
+  recentResults.set(key, items);
+  if (recentResults.size > MAX_REMEMBERED_RESULT_SETS) {
+    const oldest = recentResults.keys().next().value;
+    if (oldest !== undefined) recentResults.delete(oldest);
+  }
+}
+
+/**
+ * Resolves the requested items, preferring the copies the session was just
+ * shown and fetching the rest, and keeps a reference and credit for each.
+ */
+async function resolveCollectionItems(
+  sessionId: string | undefined,
+  inputs: MediaDetailsInput[],
+  signal: AbortSignal
+): Promise<CollectionItem[]> {
+  const recent = recentResults.get(sessionId ?? "") ?? [];
+  const addedAt = new Date().toISOString();
+
+  const resolved = await Promise.all(
+    inputs.map(async (input): Promise<CreditItem | null> => {
+      const source = input.source ?? mediaService.defaultSource;
+      const seen = recent.find(
+        (item) =>
+          item.mediaType === input.media_type &&
+          item.result.id === input.id &&
+          item.result.source === source
+      );
+      return seen ?? (await mediaService.getDetails(input, { signal }));
+    })
+  );
+
+  const missing = inputs.filter((_, index) => !resolved[index]);
+  if (missing.length > 0) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      `No media found for ${missing
+        .map((item) => `${item.media_type} ${item.id}`)
+        .join(", ")}.`
+    );
+  }
+
+  return resolved
+    .filter((item): item is CreditItem => item !== null)
+    .map((item) => toCollectionItem(item.mediaType, item.result, addedAt));
+}
+
+/**
+ * Fetches a page of a collection again so its URLs are signed by this server
+ * as it is configured now. Items that cannot be fetched are named in a notice
+ * with the credit they were saved with.
+ */
+async function toCollectionStructuredContent(
+  collection: Collection,
+  page: number,
+  signal: AbortSignal
+): Promise<MediaSearchStructuredContent> {
+  const perPage = serverConfig.maxPerPage;
+  const items = collection.items.slice((page - 1) * perPage, page * perPage);
+  const hasMore = collection.items.length > page * perPage;
+  const found = await Promise.all(
+    items.map((item) =>
+      mediaService
+        .getDetails(
+          { media_type: item.mediaType, id: item.id, source: item.source },
+          { signal }
+        )
+        .catch((error: unknown) => {
+          if (signal.aborted) throw error;
+          logger.warn("Failed to load collection item", {
+            mediaType: item.mediaType,
+            id: item.id,
+            source: item.source,
+            error,
+          });
+          return null;
+        })
+    )
+  );
+  const images = found.flatMap((item) =>
+    item?.mediaType === "image" ? [item.result] : []
+  );
+  const videos = found.flatMap((item) =>
+    item?.mediaType === "video" ? [item.result] : []
+  );
+  const unavailable = items.filter((_, index) => !found[index]);
+  const sources = [...new Set(items.map((item) => item.source))];
+
+  const notices: SearchNotice[] = [];
+  if (unavailable.length > 0) {
+    const credits = unavailable.map(({ mediaType, id, credit }) => {
+      const link = credit.pageUrl ? ` (${credit.pageUrl})` : "";
+      return `${mediaType} ${id} by ${credit.creatorName}${link}`;
+    });
+    notices.push({
+      code: "collection_items_unavailable",
+      message: `${unavailable.length} saved item${unavailable.length === 1 ? " is" : "s are"} missing from the upstream or could not be loaded: ${credits.join("; ")}.`,
+    });
+  }
+
+  return {
+    query: collection.name,
+    imageCount: images.length,
+    videoCount: videos.length,
+    images,
+    videos,
+    pagination: {
+      page,
+      perPage,
+      hasMore,
+      nextPage: hasMore ? page + 1 : null,
+    },
+    filters: {},
+    notices,
+    sources,
+    attribution: mediaService.attributionFor(sources),
+    collection: summarizeCollection(collection),
+  };
+}
+
+function describeCollection(collection: Collection): string {
+  const { imageCount, videoCount } = summarizeCollection(collection);
+  return `"${collection.name}" (ID ${collection.id}) with ${imageCount} image${imageCount === 1 ? "" : "s"} and ${videoCount} video${videoCount === 1 ? "" : "s"}`;
+}
+
+function resolveMediaMix(input: CombinedSearchInput): {
+  images: number;
+  videos: number;
+} {
+  const total = input.per_page ?? serverConfig.defaultPerPage;
+  const videos =
+    input.video_count ??
+    (input.image_count !== undefined
+      ? Math.max(0, total - input.image_count)
+      : Math.round(total * (input.video_share ?? 0.5)));
+  const images = input.image_count ?? Math.max(0, total - videos);
+
+  if (images === 0 && videos === 0) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      "Request at least one image or video."
+    );
+  }
+
+  const clamp = (count: number) =>
+    count === 0 ? 0 : Math.max(MIN_RESULTS_PER_KIND, count);
+  return { images: clamp(images), videos: clamp(videos) };
+}
+
+function splitCombinedInput(
+  input: CombinedSearchInput,
+  mix: { images: number; videos: number }
+): { imageInput: SearchImagesInput; videoInput: SearchVideosInput } {
+  const {
+    video_share: _videoShare,
+    image_count: _imageCount,
+    video_count: _videoCount,
+    per_page: _perPage,
+    orientation,
+    image_type,
+    colors,
+    video_type,
+    min_duration,
+    max_duration,
+    ...shared
+  } = input;
+
+  return {
+    imageInput: {
+      ...shared,
+      per_page: mix.images,
+      orientation,
+      image_type,
+      colors,
+    },
+    videoInput: {
+      ...shared,
+      per_page: mix.videos,
+      video_type,
+      min_duration,
+      max_duration,
+    },
+  };
+}
+
+function toDetailsStructuredContent(
+  input: MediaDetailsInput,
+  found: MediaDetailsResult
+): MediaSearchStructuredContent {
+  const sources = [found.details.source];
+  return {
+    query: `${input.media_type} ${input.id}`,
+    imageCount: found.mediaType === "image" ? 1 : 0,
+    videoCount: found.mediaType === "video" ? 1 : 0,
+    images: found.mediaType === "image" ? [found.result] : [],
+    videos: found.mediaType === "video" ? [found.result] : [],
+    pagination: { page: 1, perPage: 1, hasMore: false, nextPage: null },
+    filters: {},
+    notices: [],
+    sources,
+    attribution: mediaService.attributionFor(sources),
+    details: found.details,
+  };
+}
+
+function buildPolicyBlockedResponse(
+  input: SearchMediaInput,
+  locale: string,
+  review: Extract<QueryReview, { action: "block" }>
+) {
+  const message =
+    "This search was blocked by this server's content policy. Ask the user for a different description.";
+  const structuredContent = toStructuredContent({
+    input,
+    notices: [{ code: "policy_blocked", message }],
+    policy: review.decision,
+  });
+
+  return {
+    content: [{ type: "text" as const, text: message }],
+    structuredContent,
+    _meta: {
+      "openai/locale": locale,
+    },
+  };
+}
+
+function buildRateLimitedResponse(
+  input: SearchMediaInput,
+  locale: string,
+  error: RateLimitExceededError
+) {
+  const structuredContent = toStructuredContent({
+    input,
+    notices: [
+      {
+        code: "rate_limited",
+        message: error.message,
+        retryAfterSeconds: error.retryAfterSeconds,
+      },
+    ],
+  });
+
+  return {
+    content: [
+      {
+        type: "text" as const,
+        text: `The stock media rate limit is exhausted, so no search was run for "${input.query}". Retry after ${error.retryAfterSeconds} seconds.`,
+      },
+    ],
+    structuredContent,
+    isError: true,
+    _meta: {
+      "openai/locale": locale,
+      retryAfterSeconds: error.retryAfterSeconds,
+    },
+  };
+}
+
+function mergePagination(
+  input: SearchMediaInput,
+  ...sources: Array<PaginationInfo | undefined>
+): PaginationInfo {
+  const available = sources.filter(
+    (source): source is PaginationInfo => source !== undefined
+  );
+  const page = input.page ?? 1;
+  const hasMore = available.some((source) => source.hasMore);
+  return {
+    page,
+    perPage:
+      available[0]?.perPage ?? input.per_page ?? serverConfig.defaultPerPage,
+    hasMore,
+    nextPage: hasMore ? page + 1 : null,
   };
 }
 
@@ -148,7 +657,6 @@ function normalizeQuery(query: string): string {
 
 function ensureAcceptHeader(req: Request) {
   const acceptHeader = req.headers.accept ?? "";
-  console.log("Original Accept header:", acceptHeader || "<none>");
   const tokens = acceptHeader
     .split(",")
     .map((part) => part.trim().toLowerCase())
@@ -162,10 +670,110 @@ function ensureAcceptHeader(req: Request) {
   }
 
   req.headers.accept = tokens.join(", ");
-  console.log("Normalized Accept header:", req.headers.accept);
+  if (req.headers.accept !== acceptHeader) {
+    logger.debug("Normalized Accept header", {
+      original: acceptHeader,
+      normalized: req.headers.accept,
+    });
+  }
 }
 
-async function main() {
+/** Logs each tool call's duration and outcome under the current request ID. */
+function withToolLogging<Args extends unknown[]>(
+  tool: string,
+  handler: (...args: Args) => Promise<CallToolResult>
+): (...args: Args) => Promise<CallToolResult> {
+  return (...args) => {
+    const run = async () => {
+      const startedAt = Date.now();
+      const endTimer = toolCallDuration.startTimer();
+      try {
+        const result = await handler(...args);
+        const outcome = result.isError ? "tool_error" : "ok";
+        toolCalls.inc({ tool, outcome });
+        endTimer({ tool, outcome });
+        logger.info("Tool call completed", {
+          tool,
+          durationMs: Date.now() - startedAt,
+          isError: result.isError ?? false,
+        });
+        return result;
+      } catch (error) {
+        toolCalls.inc({ tool, outcome: "error" });
+        endTimer({ tool, outcome: "error" });
+        logger.warn("Tool call failed", {
+          tool,
+          durationMs: Date.now() - startedAt,
+          error,
+        });
+        throw error;
+      }
+    };
+    // Calls over stdio have no HTTP request, so each gets its own ID.
+    return currentRequestId()
+      ? run()
+      : runWithRequestContext(randomUUID(), run);
+  };
+}
+
+/**
+ * Reports tool names the config does not know and per-tool defaults that the
+ * tool's input schema would reject, so mistakes surface at startup.
+ */
+function checkToolSettings() {
+  const { enabled, defaults } = serverConfig.tools;
+  const problems: string[] = [];
+  for (const name of enabled ?? []) {
+    if (!TOOL_INPUT_SCHEMAS[name]) {
+      problems.push(`tools.enabled: unknown tool "${name}".`);
+    }
+  }
+  for (const [name, values] of Object.entries(defaults)) {
+    const schema = TOOL_INPUT_SCHEMAS[name];
+    if (!schema) {
+      problems.push(`tools.defaults.${name}: unknown tool "${name}".`);
+      continue;
+    }
+    const parsed = schema.partial().strict().safeParse(values);
+    if (!parsed.success) {
+      for (const issue of parsed.error.issues) {
+        const path = [name, ...issue.path].join(".");
+        problems.push(`tools.defaults.${path}: ${issue.message}`);
+      }
+    }
+  }
+  if (problems.length > 0) {
+    throw new ConfigError(problems);
+  }
+}
+
+/**
+ * Registers a tool as the `tools` config asks: tools missing from
+ * `tools.enabled` are left out, and calls to the rest start from the
+ * configured defaults, which the caller's arguments override.
+ */
+function registerConfiguredTool(
+  server: McpServer,
+  name: string,
+  config: {
+    title: string;
+    description: string;
+    inputSchema: ZodRawShape;
+    _meta?: Record<string, unknown>;
+  },
+  callback: ToolCallback<ZodRawShape>
+) {
+  const { enabled, defaults } = serverConfig.tools;
+  if (enabled && !enabled.includes(name)) {
+    return;
+  }
+  const toolDefaults = defaults[name] ?? {};
+  server.registerTool(name, config, (args, extra) =>
+    callback({ ...toolDefaults, ...args }, extra)
+  );
+}
+
+function createMcpServer(): McpServer {
   const server = new McpServer({
     name: "pixabay-image-mcp",
     version: PACKAGE_VERSION,
@@ -175,22 +783,26 @@ async function main() {
     RESOURCE_NAME,
     OUTPUT_TEMPLATE_URI,
     {},
-    async () => ({
-      contents: [
-        {
-          uri: OUTPUT_TEMPLATE_URI,
-          mimeType: "text/html+skybridge",
-          text: await loadWidgetHtml(),
-          _meta: {
-            "openai/widgetDescription": WIDGET_DESCRIPTION,
-            "openai/widgetPrefersBorder": true,
+    async () => {
+      widgetResourceReads.inc();
+      return {
+        contents: [
+          {
+            uri: OUTPUT_TEMPLATE_URI,
+            mimeType: "text/html+skybridge",
+            text: await loadWidgetHtml(),
+            _meta: {
+              "openai/widgetDescription": WIDGET_DESCRIPTION,
+              "openai/widgetPrefersBorder": true,
+            },
           },
-        },
-      ],
-    })
+        ],
+      };
+    }
   );
 
-  server.registerTool(
+  registerConfiguredTool(
+    server,
     IMAGE_TOOL_NAME,
     {
       title: IMAGE_TOOL_TITLE,
@@ -202,7 +814,7 @@ async function main() {
         "openai/toolInvocation/invoked": "Images ready.",
       },
     },
-    async (rawInput, extra) => {
+    withToolLogging(IMAGE_TOOL_NAME, async (rawInput, extra) => {
       const locale = resolveLocale(extra._meta);
       const parsed = searchImagesInputSchema.safeParse(rawInput);
 
@@ -214,23 +826,44 @@ async function main() {
       }
 
       const input = parsed.data;
+      const review = contentPolicy.reviewQuery(normalizeQuery(input.query));
+      if (review.action === "block") {
+        return buildPolicyBlockedResponse(input, locale, review);
+      }
       const normalizedInput: SearchImagesInput = {
         ...input,
-        query: normalizeQuery(input.query),
+        query: review.query,
       };
 
-      const imageResult = await pixabayClient.searchImages(
-        {
-          ...normalizedInput,
-          locale,
-        },
-        { signal: extra.signal }
-      );
+      let imageResult: MediaImageSearchResult;
+      let rewrite: QueryRewrite;
+      try {
+        ({ result: imageResult, rewrite } = await searchWithBroadening(
+          planFor(normalizedInput.query),
+          (candidate) =>
+            mediaService.searchImages(
+              {
+                ...imageInputFor(normalizedInput, candidate),
+                locale,
+              },
+              { signal: extra.signal }
+            ),
+          (result) => result.totalHits > 0
+        ));
+      } catch (error) {
+        if (error instanceof RateLimitExceededError) {
+          return buildRateLimitedResponse(normalizedInput, locale, error);
+        }
+        throw error;
+      }
 
       const structuredContent = toStructuredContent({
         input: normalizedInput,
         imageResult,
+        rewrite,
+        policy: review.decision,
       });
+      rememberResults(extra.sessionId, structuredContent);
 
       const summary = buildSummary(structuredContent);
 
@@ -243,6 +876,10 @@ async function main() {
         images: imageResult.totalHits,
       };
 
+      const cache: Record<string, unknown> = {
+        images: imageResult.cacheStatus,
+      };
+
       return {
         content: [
           {
@@ -255,26 +892,28 @@ async function main() {
           "openai/locale": locale,
           rateLimit,
           totalHits,
+          cache,
         },
       };
-    }
+    })
   );
 
-  server.registerTool(
+  registerConfiguredTool(
+    server,
     VIDEO_TOOL_NAME,
     {
       title: VIDEO_TOOL_TITLE,
       description: VIDEO_TOOL_DESCRIPTION,
-      inputSchema: searchImagesInputSchema.shape,
+      inputSchema: searchVideosInputSchema.shape,
       _meta: {
         "openai/outputTemplate": OUTPUT_TEMPLATE_URI,
         "openai/toolInvocation/invoking": "Gathering videos from the web…",
         "openai/toolInvocation/invoked": "Videos ready.",
       },
     },
-    async (rawInput, extra) => {
+    withToolLogging(VIDEO_TOOL_NAME, async (rawInput, extra) => {
       const locale = resolveLocale(extra._meta);
-      const parsed = searchImagesInputSchema.safeParse(rawInput);
+      const parsed = searchVideosInputSchema.safeParse(rawInput);
 
       if (!parsed.success) {
         const errorMessage = parsed.error.issues
@@ -284,23 +923,44 @@ async function main() {
       }
 
       const input = parsed.data;
-      const normalizedInput: SearchImagesInput = {
+      const review = contentPolicy.reviewQuery(normalizeQuery(input.query));
+      if (review.action === "block") {
+        return buildPolicyBlockedResponse(input, locale, review);
+      }
+      const normalizedInput: SearchVideosInput = {
         ...input,
-        query: normalizeQuery(input.query),
+        query: review.query,
       };
 
-      const videoResult = await pixabayClient.searchVideos(
-        {
-          ...normalizedInput,
-          locale,
-        },
-        { signal: extra.signal }
-      );
+      let videoResult: MediaVideoSearchResult;
+      let rewrite: QueryRewrite;
+      try {
+        ({ result: videoResult, rewrite } = await searchWithBroadening(
+          planFor(normalizedInput.query),
+          (candidate) =>
+            mediaService.searchVideos(
+              {
+                ...videoInputFor(normalizedInput, candidate),
+                locale,
+              },
+              { signal: extra.signal }
+            ),
+          (result) => result.totalHits > 0
+        ));
+      } catch (error) {
+        if (error instanceof RateLimitExceededError) {
+          return buildRateLimitedResponse(normalizedInput, locale, error);
+        }
+        throw error;
+      }
 
       const structuredContent = toStructuredContent({
         input: normalizedInput,
         videoResult,
+        rewrite,
+        policy: review.decision,
       });
+      rememberResults(extra.sessionId, structuredContent);
 
       const summary = buildSummary(structuredContent);
 
@@ -313,6 +973,10 @@ async function main() {
         videos: videoResult.totalHits,
       };
 
+      const cache: Record<string, unknown> = {
+        videos: videoResult.cacheStatus,
+      };
+
       return {
         content: [
           {
@@ -325,32 +989,743 @@ async function main() {
           "openai/locale": locale,
           rateLimit,
           totalHits,
+          cache,
         },
       };
-    }
+    })
   );
 
-  const transport = new StreamableHTTPServerTransport({
-    sessionIdGenerator: undefined,
-    enableJsonResponse: true,
-  });
+  registerConfiguredTool(
+    server,
+    MEDIA_TOOL_NAME,
+    {
+      title: MEDIA_TOOL_TITLE,
+      description: MEDIA_TOOL_DESCRIPTION,
+      inputSchema: combinedSearchInputSchema.shape,
+      _meta: {
+        "openai/outputTemplate": OUTPUT_TEMPLATE_URI,
+        "openai/toolInvocation/invoking": "Gathering images and videos…",
+        "openai/toolInvocation/invoked": "Media ready.",
+      },
+    },
+    withToolLogging(MEDIA_TOOL_NAME, async (rawInput, extra) => {
+      const locale = resolveLocale(extra._meta);
+      const parsed = combinedSearchInputSchema.safeParse(rawInput);
 
-  await server.connect(transport);
+      if (!parsed.success) {
+        const errorMessage = parsed.error.issues
+          .map((issue) => issue.message)
+          .join("; ");
+        throw new McpError(ErrorCode.InvalidParams, errorMessage);
+      }
+
+      const input = parsed.data;
+      const review = contentPolicy.reviewQuery(normalizeQuery(input.query));
+      if (review.action === "block") {
+        return buildPolicyBlockedResponse(input, locale, review);
+      }
+      const normalizedInput: CombinedSearchInput = {
+        ...input,
+        query: review.query,
+      };
+      const mix = resolveMediaMix(normalizedInput);
+      const { imageInput, videoInput } = splitCombinedInput(
+        normalizedInput,
+        mix
+      );
+      const options = { signal: extra.signal };
+
+      // Broadens only while neither side finds anything; a failure on either
+      // side ends the search so it is reported rather than retried.
+      const {
+        result: [images, videos],
+        rewrite,
+      } = await searchWithBroadening(
+        planFor(normalizedInput.query),
+        (candidate) =>
+          Promise.allSettled([
+            mix.images > 0
+              ? mediaService.searchImages(
+                  { ...imageInputFor(imageInput, candidate), locale },
+                  options
+                )
+              : Promise.resolve(undefined),
+            mix.videos > 0
+              ? mediaService.searchVideos(
+                  { ...videoInputFor(videoInput, candidate), locale },
+                  options
+                )
+              : Promise.resolve(undefined),
+          ]),
+        (outcomes) =>
+          outcomes.some(
+            (outcome) =>
+              outcome.status === "rejected" ||
+              (outcome.value?.totalHits ?? 0) > 0
+          )
+      );
+
+      const failures = [
+        { kind: "image", outcome: images },
+        { kind: "video", outcome: videos },
+      ].flatMap(({ kind, outcome }) =>
+        outcome.status === "rejected"
+          ? [{ kind, reason: outcome.reason as unknown }]
+          : []
+      );
+
+      if (failures.length === 2) {
+        const [first, second] = failures;
+        if (
+          first!.reason instanceof RateLimitExceededError &&
+          second!.reason instanceof RateLimitExceededError
+        ) {
+          return buildRateLimitedResponse(
+            normalizedInput,
+            locale,
+            first!.reason
+          );
+        }
+        throw first!.reason;
+      }
+
+      const notices: SearchNotice[] = failures.map(({ kind, reason }) =>
+        reason instanceof RateLimitExceededError
+          ? {
+              code: "rate_limited",
+              message: `No ${kind}s were returned: ${reason.message}`,
+              retryAfterSeconds: reason.retryAfterSeconds,
+            }
+          : {
+              code: "search_failed",
+              message: `No ${kind}s were returned: ${reason instanceof Error ? reason.message : String(reason)}`,
+            }
+      );
+
+      const imageResult =
+        images.status === "fulfilled" ? images.value : undefined;
+      const videoResult =
+        videos.status === "fulfilled" ? videos.value : undefined;
+
+      const structuredContent = toStructuredContent({
+        input: normalizedInput,
+        notices,
+        imageResult,
+        videoResult,
+        rewrite,
+        policy: review.decision,
+      });
+      rememberResults(extra.sessionId, structuredContent);
+
+      const summary = [
+        buildSummary(structuredContent),
+        ...notices.map((notice) => notice.message),
+      ].join(" ");
+
+      const rateLimit: Record<string, unknown> = {};
+      if (imageResult?.rateLimit) {
+        rateLimit.images = imageResult.rateLimit;
+      }
+      if (videoResult?.rateLimit) {
+        rateLimit.videos = videoResult.rateLimit;
+      }
+
+      const totalHits: Record<string, unknown> = {};
+      const cache: Record<string, unknown> = {};
+      if (imageResult) {
+        totalHits.images = imageResult.totalHits;
+        cache.images = imageResult.cacheStatus;
+      }
+      if (videoResult) {
+        totalHits.videos = videoResult.totalHits;
+        cache.videos = videoResult.cacheStatus;
+      }
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: summary,
+          },
+        ],
+        structuredContent,
+        _meta: {
+          "openai/locale": locale,
+          rateLimit,
+          totalHits,
+          cache,
+          mix,
+        },
+      };
+    })
+  );
+
+  registerConfiguredTool(
+    server,
+    ATTRIBUTION_TOOL_NAME,
+    {
+      title: ATTRIBUTION_TOOL_TITLE,
+      description: ATTRIBUTION_TOOL_DESCRIPTION,
+      inputSchema: attributionInputSchema.shape,
+    },
+    withToolLogging(ATTRIBUTION_TOOL_NAME, async (rawInput, extra) => {
+      const parsed = attributionInputSchema.safeParse(rawInput);
+
+      if (!parsed.success) {
+        const errorMessage = parsed.error.issues
+          .map((issue) => issue.message)
+          .join("; ");
+        throw new McpError(ErrorCode.InvalidParams, errorMessage);
+      }
+
+      const { items: requested, formats } = parsed.data;
+      let items: CreditItem[];
+      if (requested) {
+        const found = await Promise.all(
+          requested.map((item) =>
+            mediaService.getDetails(item, { signal: extra.signal })
+          )
+        );
+        const missing = requested.filter((_, index) => !found[index]);
+        if (missing.length > 0) {
+          throw new McpError(
+            ErrorCode.InvalidParams,
+            `No media found for ${missing
+              .map((item) => `${item.media_type} ${item.id}`)
+              .join(", ")}.`
+          );
+        }
+        items = found.map((item) => item!);
+      } else {
+        items = recentResults.get(extra.sessionId ?? "") ?? [];
+        if (items.length === 0) {
+          throw new McpError(
+            ErrorCode.InvalidParams,
+            "There are no recent results to credit. Pass `items` with the media IDs to include."
+          );
+        }
+      }
+
+      const selectedFormats: AttributionFormat[] = formats ?? [
+        ...attributionFormatValues,
+      ];
+      const credits = buildCreditExport(
+        items,
+        (item) => ({
+          sourceName: mediaService.displayNamesFor([item.result.source]),
+          license: mediaService.licenseFor(item.result.source),
+        }),
+        selectedFormats
+      );
+
+      const sections: string[] = [];
+      if (credits.html) sections.push(`HTML:\n${credits.html}`);
+      if (credits.markdown) sections.push(`Markdown:\n${credits.markdown}`);
+      if (credits.text) sections.push(`Plain text:\n${credits.text}`);
+      if (credits.jsonLd) {
+        sections.push(
+          `JSON-LD:\n${JSON.stringify(credits.jsonLd, null, 2)}`
+        );
+      }
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Credits for ${items.length} item${items.length === 1 ? "" : "s"}.\n\n${sections.join("\n\n")}`,
+          },
+        ],
+        structuredContent: credits,
+      };
+    })
+  );
+
+  registerConfiguredTool(
+    server,
+    CREATE_COLLECTION_TOOL_NAME,
+    {
+      title: CREATE_COLLECTION_TOOL_TITLE,
+      description: CREATE_COLLECTION_TOOL_DESCRIPTION,
+      inputSchema: createCollectionInputSchema.shape,
+    },
+    withToolLogging(CREATE_COLLECTION_TOOL_NAME, async (rawInput, extra) => {
+      const parsed = createCollectionInputSchema.safeParse(rawInput);
+
+      if (!parsed.success) {
+        const errorMessage = parsed.error.issues
+          .map((issue) => issue.message)
+          .join("; ");
+        throw new McpError(ErrorCode.InvalidParams, errorMessage);
+      }
+
+      const collection = await collections.create(
+        parsed.data.name,
+        parsed.data.description,
+        principalOf(extra.authInfo)?.subject ?? null
+      );
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Created collection ${describeCollection(collection)}.`,
+          },
+        ],
+        structuredContent: { collection: summarizeCollection(collection) },
+      };
+    })
+  );
+
+  registerConfiguredTool(
+    server,
+    ADD_TO_COLLECTION_TOOL_NAME,
+    {
+      title: ADD_TO_COLLECTION_TOOL_TITLE,
+      description: ADD_TO_COLLECTION_TOOL_DESCRIPTION,
+      inputSchema: updateCollectionItemsInputSchema.shape,
+    },
+    withToolLogging(ADD_TO_COLLECTION_TOOL_NAME, async (rawInput, extra) => {
+      const parsed = updateCollectionItemsInputSchema.safeParse(rawInput);
+
+      if (!parsed.success) {
+        const errorMessage = parsed.error.issues
+          .map((issue) => issue.message)
+          .join("; ");
+        throw new McpError(ErrorCode.InvalidParams, errorMessage);
+      }
+
+      const input = parsed.data;
+      // Fail on an unknown collection before fetching anything.
+      await collections.get(input.collection);
+
+      let items: CollectionItem[];
+      try {
+        items = await resolveCollectionItems(
+          extra.sessionId,
+          input.items,
+          extra.signal
+        );
+      } catch (error) {
+        if (error instanceof RateLimitExceededError) {
+          return {
+            content: [
+              {
+                type: "text" as const,
+                text: `The stock media rate limit is exhausted, so nothing was added to "${input.collection}". Retry after ${error.retryAfterSeconds} seconds.`,
+              },
+            ],
+            isError: true,
+            _meta: { retryAfterSeconds: error.retryAfterSeconds },
+          };
+        }
+        throw error;
+      }
+
+      const { collection, added } = await collections.addItems(
+        input.collection,
+        items
+      );
+      const skipped = items.length - added;
+      const skippedNote =
+        skipped > 0
+          ? ` ${skipped} item${skipped === 1 ? " was" : "s were"} already saved.`
+          : "";
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Added ${added} item${added === 1 ? "" : "s"} to ${describeCollection(collection)}.${skippedNote}`,
+          },
+        ],
+        structuredContent: { collection: summarizeCollection(collection) },
+      };
+    })
+  );
+
+  registerConfiguredTool(
+    server,
+    REMOVE_FROM_COLLECTION_TOOL_NAME,
+    {
+      title: REMOVE_FROM_COLLECTION_TOOL_TITLE,
+      description: REMOVE_FROM_COLLECTION_TOOL_DESCRIPTION,
+      inputSchema: updateCollectionItemsInputSchema.shape,
+    },
+    withToolLogging(REMOVE_FROM_COLLECTION_TOOL_NAME, async (rawInput) => {
+      const parsed = updateCollectionItemsInputSchema.safeParse(rawInput);
+
+      if (!parsed.success) {
+        const errorMessage = parsed.error.issues
+          .map((issue) => issue.message)
+          .join("; ");
+        throw new McpError(ErrorCode.InvalidParams, errorMessage);
+      }
+
+      const input = parsed.data;
+      const { collection, removed } = await collections.removeItems(
+        input.collection,
+        input.items.map((item) => ({
+          mediaType: item.media_type,
+          id: item.id,
+          source: item.source ?? mediaService.defaultSource,
+        }))
+      );
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Removed ${removed} item${removed === 1 ? "" : "s"} from ${describeCollection(collection)}.`,
+          },
+        ],
+        structuredContent: { collection: summarizeCollection(collection) },
+      };
+    })
+  );
+
+  registerConfiguredTool(
+    server,
+    LIST_COLLECTIONS_TOOL_NAME,
+    {
+      title: LIST_COLLECTIONS_TOOL_TITLE,
+      description: LIST_COLLECTIONS_TOOL_DESCRIPTION,
+      inputSchema: listCollectionsInputSchema.shape,
+    },
+    withToolLogging(LIST_COLLECTIONS_TOOL_NAME, async () => {
+      const saved = await collections.list();
+      const lines = saved.map((collection) => {
+        const description = collection.description
+          ? `: ${collection.description}`
+          : "";
+        return `- ${describeCollection(collection)}${description}`;
+      });
+
+      return {
+        content: [
+          {
+            type: "text",
+            text:
+              saved.length > 0
+                ? `${saved.length} collection${saved.length === 1 ? "" : "s"}:\n${lines.join("\n")}`
+                : "There are no collections yet. Create one with create_collection.",
+          },
+        ],
+        structuredContent: { collections: saved.map(summarizeCollection) },
+      };
+    })
+  );
+
+  registerConfiguredTool(
+    server,
+    SHOW_COLLECTION_TOOL_NAME,
+    {
+      title: SHOW_COLLECTION_TOOL_TITLE,
+      description: SHOW_COLLECTION_TOOL_DESCRIPTION,
+      inputSchema: showCollectionInputSchema.shape,
+      _meta: {
+        "openai/outputTemplate": OUTPUT_TEMPLATE_URI,
+        "openai/toolInvocation/invoking": "Opening collection…",
+        "openai/toolInvocation/invoked": "Collection ready.",
+      },
+    },
+    withToolLogging(SHOW_COLLECTION_TOOL_NAME, async (rawInput, extra) => {
+      const locale = resolveLocale(extra._meta);
+      const parsed = showCollectionInputSchema.safeParse(rawInput);
+
+      if (!parsed.success) {
+        const errorMessage = parsed.error.issues
+          .map((issue) => issue.message)
+          .join("; ");
+        throw new McpError(ErrorCode.InvalidParams, errorMessage);
+      }
+
+      const collection = await collections.get(parsed.data.collection);
+      const structuredContent = await toCollectionStructuredContent(
+        collection,
+        parsed.data.page ?? 1,
+        extra.signal
+      );
+      rememberResults(extra.sessionId, structuredContent);
+
+      const { pagination, notices } = structuredContent;
+      const pageNote = pagination.hasMore
+        ? ` More items are available on page ${pagination.nextPage}.`
+        : "";
+      return {
+        content: [
+          {
+            type: "text",
+            text: [
+              `Showing collection ${describeCollection(collection)}.${pageNote}`,
+              ...notices.map((notice) => notice.message),
+            ].join(" "),
+          },
+        ],
+        structuredContent,
+        _meta: {
+          "openai/locale": locale,
+        },
+      };
+    })
+  );
+
+  registerConfiguredTool(
+    server,
+    DETAILS_TOOL_NAME,
+    {
+      title: DETAILS_TOOL_TITLE,
+      description: DETAILS_TOOL_DESCRIPTION,
+      inputSchema: mediaDetailsInputSchema.shape,
+      _meta: {
+        "openai/outputTemplate": OUTPUT_TEMPLATE_URI,
+        "openai/toolInvocation/invoking": "Looking up media details…",
+        "openai/toolInvocation/invoked": "Media details ready.",
+      },
+    },
+    withToolLogging(DETAILS_TOOL_NAME, async (rawInput, extra) => {
+      const locale = resolveLocale(extra._meta);
+      const parsed = mediaDetailsInputSchema.safeParse(rawInput);
+
+      if (!parsed.success) {
+        const errorMessage = parsed.error.issues
+          .map((issue) => issue.message)
+          .join("; ");
+        throw new McpError(ErrorCode.InvalidParams, errorMessage);
+      }
+
+      const input = parsed.data;
+      let found: MediaDetailsResult | null;
+      try {
+        found = await mediaService.getDetails(input, { signal: extra.signal });
+      } catch (error) {
+        if (error instanceof RateLimitExceededError) {
+          return {
+            content: [
+              {
+                type: "text" as const,
+                text: `The stock media rate limit is exhausted, so ${input.media_type} ${input.id} could not be fetched. Retry after ${error.retryAfterSeconds} seconds.`,
+              },
+            ],
+            isError: true,
+            _meta: {
+              "openai/locale": locale,
+              retryAfterSeconds: error.retryAfterSeconds,
+            },
+          };
+        }
+        throw error;
+      }
+
+      if (!found) {
+        throw new McpError(
+          ErrorCode.InvalidParams,
+          `No ${input.media_type} with ID ${input.id} was found on ${mediaService.displayNamesFor([input.source ?? mediaService.defaultSource])}.`
+        );
+      }
+
+      const structuredContent = toDetailsStructuredContent(input, found);
+      rememberResults(extra.sessionId, structuredContent);
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: buildDetailsSummary(found),
+          },
+        ],
+        structuredContent,
+        _meta: {
+          "openai/locale": locale,
+        },
+      };
+    })
+  );
+
+  return server;
+}
+
+async function startStdioServer() {
+  if (library || mediaProxy) {
+    logger.warn(
+      "Library and proxied media URLs point at the HTTP server, which is not started in stdio mode."
+    );
+  }
+  const server = createMcpServer();
+  await server.connect(new StdioServerTransport());
+  logger.info("Pixabay MCP server running on stdio");
+}
+
+async function startHttpServer() {
+  const sessions = new SessionRegistry(
+    serverConfig.sessions,
+    createMcpServer,
+    (sessionId) => {
+      recentResults.delete(sessionId);
+    }
+  );
 
   const app = express();
   app.disable("x-powered-by");
 
+  app.use((req, res, next) => {
+    const incoming = req.header("x-request-id");
+    const requestId =
+      incoming && REQUEST_ID_PATTERN.test(incoming) ? incoming : randomUUID();
+    const startedAt = Date.now();
+    res.setHeader("X-Request-Id", requestId);
+    res.on("finish", () => {
+      runWithRequestContext(requestId, () => {
+        logger.info("HTTP request completed", {
+          method: req.method,
+          path: redactUrl(req.originalUrl),
+          status: res.statusCode,
+          durationMs: Date.now() - startedAt,
+          sessionId: req.header("mcp-session-id"),
+        });
+      });
+    });
+    runWithRequestContext(requestId, next);
+  });
+
   app.get("/health", (_req, res) => {
     res.status(200).json({ status: "ok" });
   });
 
-  app.all("/mcp", async (req, res) => {
+  if (library) {
+    app.get(`${LIBRARY_FILE_ROUTE}/:id`, async (req, res) => {
+      const id = Number(req.params.id);
+      // Only URLs from this server's search results are served.
+      const path =
+        Number.isSafeInteger(id) &&
+        hasValidSignature(`${LIBRARY_FILE_ROUTE}/${id}`, req.query)
+          ? await library.resolveFile(id)
+          : null;
+      if (!path) {
+        res.status(404).json({ error: "Not Found" });
+        return;
+      }
+      // sendFile handles Range requests so videos can seek.
+      res.sendFile(path, { maxAge: "1h" });
+    });
+  }
+
+  if (mediaProxy) {
+    app.get(
+      `${MEDIA_PROXY_ROUTE}/:kind/:id/:name`,
+      async (req, res) => {
+        const { kind, name } = req.params;
+        const id = Number(req.params.id);
+        if (
+          (kind !== "image" && kind !== "video") ||
+          !Number.isSafeInteger(id) ||
+          !/^[a-z0-9-]+$/i.test(name) ||
+          !hasValidSignature(mediaProxyPath(kind, id, name), req.query)
+        ) {
+          res.status(404).json({ error: "Not Found" });
+          return;
+        }
+        // Abort waiting on the download when the client goes away.
+        const controller = new AbortController();
+        res.once("close", () => {
+          if (!res.writableFinished) controller.abort();
+        });
+        try {
+          await mediaProxy.serve(kind, id, name, res, {
+            download: req.query.download !== undefined,
+            signal: controller.signal,
+          });
+        } catch (error) {
+          if (controller.signal.aborted) {
+            return;
+          }
+          logger.error("Failed to proxy media request", { error });
+          if (!res.headersSent) {
+            res.status(502).json({ error: "Bad Gateway" });
+          }
+        }
+      }
+    );
+  }
+
+  const authMiddleware: RequestHandler[] = [];
+  if (isAuthEnabled(serverConfig.auth)) {
+    let resourceMetadataUrl: string | undefined;
+    if (serverConfig.auth.issuer) {
+      // Clients look for the metadata at the root and under the /mcp path.
+      const metadata = buildProtectedResourceMetadata(serverConfig.auth);
+      app.get(
+        [
+          PROTECTED_RESOURCE_METADATA_PATH,
+          `${PROTECTED_RESOURCE_METADATA_PATH}/mcp`,
+        ],
+        (_req, res) => {
+          res.status(200).json(metadata);
+        }
+      );
+      resourceMetadataUrl = `${serverConfig.publicBaseUrl}${PROTECTED_RESOURCE_METADATA_PATH}/mcp`;
+    }
+
+    authMiddleware.push(
+      requireBearerAuth({
+        verifier: new AccessTokenVerifier(serverConfig.auth),
+        requiredScopes: serverConfig.auth.requiredScopes,
+        resourceMetadataUrl,
+      })
+    );
+  }
+
+  if (serverConfig.metrics.enabled) {
+    new Gauge(
+      "mcp_sessions_active",
+      "MCP sessions currently open.",
+      () => sessions.size
+    );
+    // Scrapers send the same bearer token as MCP clients when auth is on.
+    app.get(METRICS_ROUTE, ...authMiddleware, (_req, res) => {
+      res.status(200).type(METRICS_CONTENT_TYPE).send(renderMetrics());
+    });
+  }
+
+  const mcpMiddleware: RequestHandler[] = [
+    ...authMiddleware,
+    // Runs after auth so authenticated clients are counted by client ID.
+    quotaMiddleware(new ClientQuotas(serverConfig.quotas)),
+  ];
+
+  app.all("/mcp", ...mcpMiddleware, async (req, res) => {
     try {
       ensureAcceptHeader(req);
-      console.log("Request Accept header:", req.headers.accept);
+
+      const sessionId = req.header("mcp-session-id");
+      const owner = sessionOwnerOf(req);
+      const transport = sessionId
+        ? sessions.get(sessionId, owner, res)
+        : undefined;
+      if (!transport) {
+        if (sessionId) {
+          // Tells the client to start over with a new initialize request.
+          res.status(404).json({
+            jsonrpc: "2.0",
+            error: { code: -32001, message: "Session not found" },
+            id: null,
+          });
+          return;
+        }
+        if (req.method !== "POST") {
+          res.status(400).json({
+            jsonrpc: "2.0",
+            error: { code: -32000, message: "Missing Mcp-Session-Id header" },
+            id: null,
+          });
+          return;
+        }
+        await sessions.handleUnbound(owner, req, res);
+        return;
+      }
+
       await transport.handleRequest(req, res);
     } catch (error) {
-      console.error("Failed to handle MCP request:", error);
+      logger.error("Failed to handle MCP request", { error });
       if (!res.headersSent) {
         res
           .status(500)
@@ -365,30 +1740,80 @@ async function main() {
     res.status(404).json({ error: "Not Found" });
   });
 
-  const port = Number.parseInt(process.env.PORT ?? "3333", 10);
-  const host = process.env.HOST ?? "0.0.0.0";
+  const { port, host } = serverConfig;
 
-  await new Promise<void>((resolve) => {
-    app.listen(port, host, () => {
+  const httpServer = await new Promise<HttpServer>((resolve) => {
+    const listening = app.listen(port, host, () => {
       const displayHost = host === "0.0.0.0" ? "127.0.0.1" : host;
-      console.log(
-        `Pixabay MCP server listening on http://${displayHost}:${port} (POST /mcp)`
-      );
-      console.log(
+      logger.info("Pixabay MCP server listening", {
+        url: `http://${displayHost}:${port}/mcp`,
+      });
+      logger.info(
         `Use a tunnel (e.g. ngrok http ${port}) and provide https://<domain>.ngrok.app/mcp to ChatGPT.`
       );
-      resolve();
+      resolve(listening);
     });
   });
+  closeOnShutdown(httpServer, sessions);
+}
+
+/**
+ * Sessions belong to the principal that opened them, so a leaked session ID
+ * cannot be used with someone else's credentials.
+ */
+function sessionOwnerOf(req: Request): string | null {
+  const principal = principalOf(req.auth);
+  return principal ? `${principal.kind}:${principal.subject}` : null;
+}
+
+/**
+ * On SIGTERM or SIGINT, stops accepting connections, closes every MCP session
+ * so SSE streams end cleanly, and exits once in-flight requests finish or the
+ * grace period runs out.
+ */
+function closeOnShutdown(httpServer: HttpServer, sessions: SessionRegistry) {
+  let stopping = false;
+  const shutdown = async (signal: NodeJS.Signals) => {
+    if (stopping) return;
+    stopping = true;
+    logger.info("Shutting down", { signal });
+    const closed = new Promise<void>((resolve) => {
+      httpServer.close(() => resolve());
+    });
+    await sessions.closeAll();
+    httpServer.closeIdleConnections();
+    setTimeout(
+      () => httpServer.closeAllConnections(),
+      SHUTDOWN_GRACE_MS
+    ).unref();
+    await closed;
+    process.exit(0);
+  };
+  process.once("SIGTERM", (signal) => void shutdown(signal));
+  process.once("SIGINT", (signal) => void shutdown(signal));
+}
+
+async function main() {
+  checkToolSettings();
+  if (serverConfig.transport === "stdio") {
+    await startStdioServer();
+  } else {
+    await startHttpServer();
+  }
 }
 
 main().catch((error) => {
-  console.error("Server failed to start:", error);
+  if (error instanceof ConfigError) {
+    process.stderr.write(`${error.message}\n`);
+    process.exit(1);
+  }
+  logger.error("Server failed to start", { error });
   process.exit(1);
 });
 
 function buildSummary(content: MediaSearchStructuredContent): string {
-  const { imageCount, videoCount, query } = content;
+  const { imageCount, videoCount, query, pagination, sources, rewrite } =
+    content;
 
   const descriptors: string[] = [];
   if (imageCount > 0) {
@@ -403,8 +1828,56 @@ function buildSummary(content: MediaSearchStructuredContent): string {
       descriptors.length === 1
         ? descriptors[0]
         : `${descriptors.slice(0, -1).join(", ")} and ${descriptors.slice(-1)}`;
-    return `Found ${joined} on the web for "${query}" (via Pixabay).`;
+    const pageNote = pagination.hasMore
+      ? ` More results are available on page ${pagination.nextPage}.`
+      : "";
+    const via = mediaService.displayNamesFor(sources);
+    const where =
+      sources.length === 1 && sources[0] === "library"
+        ? "in the media library"
+        : "on the web";
+    const searched =
+      rewrite && rewrite.query !== query
+        ? `searched as "${rewrite.query}", `
+        : "";
+    return `Found ${joined} ${where} for "${query}" (${searched}via ${via}).${pageNote}`;
   }
 
   return `No matching media found on the web for "${query}". Try a different description or add more detail.`;
 }
+
+function buildDetailsSummary(found: MediaDetailsResult): string {
+  const { details } = found;
+  const via = mediaService.displayNamesFor([details.source]);
+  const [width, height, contributor] =
+    found.mediaType === "image"
+      ? [
+          found.result.imageWidth,
+          found.result.imageHeight,
+          found.result.photographer.name,
+        ]
+      : [found.result.width, found.result.height, found.result.creator.name];
+
+  const facts = [
+    `${via} ${details.mediaType} ${details.id} by ${contributor}`,
+  ];
+  if (width && height) {
+    facts.push(`${width}×${height}`);
+  }
+  if (found.mediaType === "video") {
+    facts.push(`${found.result.durationSeconds}s long`);
+  }
+  if (found.result.tags.length > 0) {
+    facts.push(`tagged ${found.result.tags.join(", ")}`);
+  }
+
+  const renditions = details.renditions.map((rendition) =>
+    rendition.width && rendition.height
+      ? `${rendition.name} (${rendition.width}×${rendition.height})`
+      : rendition.name
+  );
+  const renditionNote =
+    renditions.length > 0 ? ` Renditions: ${renditions.join(", ")}.` : "";
+
+  return `${facts.join(", ")}.${renditionNote} License: ${details.license.name}. ${details.license.summary}`;
+}
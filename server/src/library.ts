@@ -0,0 +1,624 @@
+import { createHash } from "node:crypto";
+import { promises as fs } from "node:fs";
+import { basename, extname, join, relative, resolve } from "node:path";
+import { serverConfig } from "./config.js";
+import { logger } from "./logger.js";
+import {
+  ImageSearchResult,
+  MediaItemDetails,
+  MediaProvider,
+  SearchImagesParams,
+  SearchVideosParams,
+  VideoSearchResult,
+  matchesDuration,
+  sanitizeUrl,
+} from "./provider.js";
+import { probeImage, probeVideo } from "./probe.js";
+import {
+  AppliedFilters,
+  ImageResult,
+  LibrarySidecar,
+  MediaRendition,
+  MediaStats,
+  PaginationInfo,
+  VideoResult,
+  librarySidecarSchema,
+} from "./schemas.js";
+import { signPath } from "./signing.js";
+
+type LibraryEntry = {
+  id: number;
+  kind: "image" | "video";
+  path: string;
+  relativePath: string;
+  size: number;
+  modifiedAt: number;
+  width: number | null;
+  height: number | null;
+  durationSeconds: number | null;
+  tags: string[];
+  creator: string | null;
+  creatorUrl: string | null;
+  category: string | null;
+  mediaType: string | null;
+  editorsChoice: boolean;
+  tokens: string[];
+};
+
+type SidecarMetadata = {
+  title?: string;
+  tags: string[];
+  creator?: string;
+  creatorUrl?: string;
+  category?: string;
+  mediaType?: string;
+  editorsChoice?: boolean;
+};
+
+const IMAGE_EXTENSIONS = new Set([".jpg", ".jpeg", ".png", ".gif", ".webp"]);
+const VIDEO_EXTENSIONS = new Set([".mp4", ".m4v", ".mov"]);
+
+// Filler words that would otherwise make every multi-word query miss.
+const STOP_WORDS = new Set([
+  "a",
+  "an",
+  "and",
+  "the",
+  "of",
+  "in",
+  "on",
+  "with",
+  "for",
+  "photo",
+  "photos",
+  "image",
+  "images",
+  "picture",
+  "pictures",
+  "video",
+  "videos",
+  "clip",
+  "clips",
+]);
+
+const LIBRARY_STATS: MediaStats = {
+  likes: null,
+  downloads: null,
+  views: null,
+  comments: null,
+};
+
+export const LIBRARY_FILE_ROUTE = "/library/files";
+
+/**
+ * Searches a folder of team-licensed assets. The folder is indexed lazily and
+ * re-scanned once the index is older than `library.rescanSeconds`; files are
+ * matched on their names plus tags from `.json` or `.xmp` sidecars.
+ */
+export class LocalLibraryProvider implements MediaProvider {
+  readonly id = "library" as const;
+  readonly displayName = "Media library";
+  readonly attribution = "the team media library under its existing licenses";
+  // The operator chose every file, so there is nothing to filter out.
+  readonly supportsSafeSearch = true;
+  readonly license = {
+    name: "Team media library license",
+    url: null,
+    summary:
+      "Licensed to the team for the uses covered by the original acquisition agreement. Check with the asset owner before external or paid use.",
+  };
+
+  private readonly root: string;
+  private entries: LibraryEntry[] = [];
+  private indexedAt = 0;
+  private indexing: Promise<void> | null = null;
+
+  constructor(directory: string) {
+    this.root = resolve(directory);
+  }
+
+  async searchImages(params: SearchImagesParams): Promise<ImageSearchResult> {
+    const entries = await this.getEntries();
+    const filters = resolveImageFilters(params);
+
+    const matches = rankMatches(
+      entries.filter(
+        (entry) => entry.kind === "image" && matchesImageFilters(entry, params)
+      ),
+      params.query,
+      params.order
+    );
+
+    return paginate(matches, params, filters, (entry) =>
+      this.toImageResult(entry)
+    );
+  }
+
+  async searchVideos(params: SearchVideosParams): Promise<VideoSearchResult> {
+    const entries = await this.getEntries();
+    const filters = resolveVideoFilters(params);
+
+    const matches = rankMatches(
+      entries.filter(
+        (entry) => entry.kind === "video" && matchesVideoFilters(entry, params)
+      ),
+      params.query,
+      params.order
+    );
+
+    return paginate(matches, params, filters, (entry) =>
+      this.toVideoResult(entry)
+    );
+  }
+
+  async getImage(id: number): Promise<MediaItemDetails<ImageResult> | null> {
+    const entry = await this.findEntry(id);
+    if (entry?.kind !== "image") {
+      return null;
+    }
+    return { result: this.toImageResult(entry), stats: LIBRARY_STATS };
+  }
+
+  async getVideo(id: number): Promise<MediaItemDetails<VideoResult> | null> {
+    const entry = await this.findEntry(id);
+    if (entry?.kind !== "video") {
+      return null;
+    }
+    return { result: this.toVideoResult(entry), stats: LIBRARY_STATS };
+  }
+
+  /** Absolute path of an indexed file, used by the Express file route. */
+  async resolveFile(id: number): Promise<string | null> {
+    return (await this.findEntry(id))?.path ?? null;
+  }
+
+  private async findEntry(id: number): Promise<LibraryEntry | undefined> {
+    const entries = await this.getEntries();
+    return entries.find((entry) => entry.id === id);
+  }
+
+  private async getEntries(): Promise<LibraryEntry[]> {
+    const maxAgeMs = serverConfig.library.rescanSeconds * 1000;
+    if (this.indexedAt > 0 && Date.now() - this.indexedAt < maxAgeMs) {
+      return this.entries;
+    }
+
+    this.indexing ??= this.reindex().finally(() => {
+      this.indexing = null;
+    });
+    await this.indexing;
+    return this.entries;
+  }
+
+  private async reindex(): Promise<void> {
+    const previous = new Map(
+      this.entries.map((entry) => [entry.path, entry] as const)
+    );
+    const entries: LibraryEntry[] = [];
+
+    for (const path of await walk(this.root)) {
+      const extension = extname(path).toLowerCase();
+      const kind = IMAGE_EXTENSIONS.has(extension)
+        ? "image"
+        : VIDEO_EXTENSIONS.has(extension)
+          ? "video"
+          : null;
+      if (!kind) continue;
+
+      try {
+        const entry = await this.indexFile(path, kind, previous.get(path));
+        if (entry) {
+          entries.push(entry);
+        }
+      } catch (error) {
+        logger.warn("Failed to index library file", { path, error });
+      }
+    }
+
+    this.entries = entries;
+    this.indexedAt = Date.now();
+  }
+
+  private async indexFile(
+    path: string,
+    kind: "image" | "video",
+    previous: LibraryEntry | undefined
+  ): Promise<LibraryEntry | null> {
+    const stats = await fs.stat(path);
+    const relativePath = relative(this.root, path);
+
+    let width = previous?.width ?? null;
+    let height = previous?.height ?? null;
+    let durationSeconds = previous?.durationSeconds ?? null;
+    // Only re-probe headers when the file itself changed.
+    const unchanged =
+      previous?.size === stats.size &&
+      previous.modifiedAt === stats.mtimeMs;
+    if (!unchanged) {
+      if (kind === "image") {
+        const probe = await probeImage(path);
+        if (!probe) return null;
+        ({ width, height } = probe);
+      } else {
+        const probe = await probeVideo(path);
+        if (!probe) return null;
+        ({ width, height, durationSeconds } = probe);
+      }
+    }
+
+    const sidecar = await readSidecars(path);
+    const nameTokens = tokenize(basename(path, extname(path)));
+    const tags = sidecar.tags.length > 0 ? sidecar.tags : nameTokens;
+
+    return {
+      id: toLibraryId(relativePath),
+      kind,
+      path,
+      relativePath,
+      size: stats.size,
+      modifiedAt: stats.mtimeMs,
+      width,
+      height,
+      durationSeconds,
+      tags,
+      creator: sidecar.creator ?? null,
+      creatorUrl: sanitizeUrl(sidecar.creatorUrl),
+      category: sidecar.category?.toLowerCase() ?? null,
+      mediaType: sidecar.mediaType?.toLowerCase() ?? null,
+      editorsChoice: sidecar.editorsChoice ?? false,
+      tokens: [
+        ...new Set([
+          ...nameTokens,
+          ...tokenize(relativePath),
+          ...tokenize(sidecar.title ?? ""),
+          ...tags.flatMap(tokenize),
+        ]),
+      ],
+    };
+  }
+
+  private fileUrl(entry: LibraryEntry): string {
+    const base = serverConfig.publicBaseUrl.replace(/\/+$/, "");
+    return `${base}${signPath(`${LIBRARY_FILE_ROUTE}/${entry.id}`)}`;
+  }
+
+  private toRendition(entry: LibraryEntry, url: string): MediaRendition {
+    return {
+      name: "original",
+      url,
+      width: entry.width,
+      height: entry.height,
+      sizeBytes: entry.size,
+    };
+  }
+
+  private toImageResult(entry: LibraryEntry): ImageResult {
+    const url = this.fileUrl(entry);
+    return {
+      id: entry.id,
+      source: this.id,
+      previewUrl: url,
+      pageUrl: url,
+      imageUrl: url,
+      imageWidth: entry.width ?? 0,
+      imageHeight: entry.height ?? 0,
+      tags: entry.tags,
+      photographer: {
+        name: entry.creator ?? this.displayName,
+        profileUrl: entry.creatorUrl ?? url,
+      },
+      likes: null,
+      downloads: null,
+      renditions: [this.toRendition(entry, url)],
+    };
+  }
+
+  private toVideoResult(entry: LibraryEntry): VideoResult {
+    const url = this.fileUrl(entry);
+    return {
+      id: entry.id,
+      source: this.id,
+      pageUrl: url,
+      videoUrl: url,
+      previewImageUrl: null,
+      width: entry.width,
+      height: entry.height,
+      durationSeconds: entry.durationSeconds ?? 0,
+      tags: entry.tags,
+      creator: {
+        name: entry.creator ?? this.displayName,
+        profileUrl: entry.creatorUrl ?? url,
+      },
+      likes: null,
+      downloads: null,
+      renditions: [this.toRendition(entry, url)],
+    };
+  }
+}
+
+async function walk(directory: string): Promise<string[]> {
+  let dirents;
+  try {
+    dirents = await fs.readdir(directory, { withFileTypes: true });
+  } catch (error) {
+    logger.warn("Failed to read media library directory", {
+      directory,
+      error,
+    });
+    return [];
+  }
+
+  const files: string[] = [];
+  for (const dirent of dirents) {
+    if (dirent.name.startsWith(".")) continue;
+    const path = join(directory, dirent.name);
+    if (dirent.isDirectory()) {
+      files.push(...(await walk(path)));
+    } else if (dirent.isFile()) {
+      files.push(path);
+    }
+  }
+  return files;
+}
+
+/**
+ * Looks for `photo.jpg.json`/`photo.json` and `photo.jpg.xmp`/`photo.xmp`
+ * next to the asset. JSON wins over XMP when both set the same field.
+ */
+async function readSidecars(path: string): Promise<SidecarMetadata> {
+  const stem = path.slice(0, -extname(path).length);
+  const json = await readFirst([`${path}.json`, `${stem}.json`]);
+  const xmp = await readFirst([`${path}.xmp`, `${stem}.xmp`]);
+
+  const fromXmp = xmp ? parseXmp(xmp) : { tags: [] };
+  const fromJson = json ? parseJsonSidecar(json, path) : { tags: [] };
+
+  return {
+    ...fromXmp,
+    ...definedOnly(fromJson),
+    tags: fromJson.tags.length > 0 ? fromJson.tags : fromXmp.tags,
+  };
+}
+
+async function readFirst(paths: string[]): Promise<string | null> {
+  for (const path of paths) {
+    try {
+      return await fs.readFile(path, "utf8");
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+        logger.warn("Failed to read library sidecar", { path, error });
+      }
+    }
+  }
+  return null;
+}
+
+function parseJsonSidecar(raw: string, assetPath: string): SidecarMetadata {
+  let sidecar: LibrarySidecar;
+  try {
+    const parsed = librarySidecarSchema.safeParse(JSON.parse(raw));
+    if (!parsed.success) {
+      logger.warn("Ignoring invalid sidecar", { path: assetPath });
+      return { tags: [] };
+    }
+    sidecar = parsed.data;
+  } catch {
+    logger.warn("Ignoring malformed sidecar JSON", { path: assetPath });
+    return { tags: [] };
+  }
+
+  const tags = Array.isArray(sidecar.tags)
+    ? sidecar.tags
+    : (sidecar.tags?.split(",") ?? []);
+  return {
+    title: sidecar.title,
+    tags: cleanTags(tags),
+    creator: sidecar.creator,
+    creatorUrl: sidecar.creator_url,
+    category: sidecar.category,
+    mediaType: sidecar.type,
+    editorsChoice: sidecar.editors_choice,
+  };
+}
+
+function parseXmp(raw: string): SidecarMetadata {
+  return {
+    title: readXmpList(raw, "dc:title")[0],
+    tags: cleanTags(readXmpList(raw, "dc:subject")),
+    creator: readXmpList(raw, "dc:creator")[0],
+  };
+}
+
+function readXmpList(raw: string, element: string): string[] {
+  const block = new RegExp(`<${element}>([\\s\\S]*?)</${element}>`).exec(raw);
+  if (!block) {
+    return [];
+  }
+  return [...block[1]!.matchAll(/<rdf:li[^>]*>([\s\S]*?)<\/rdf:li>/g)].map(
+    (match) => decodeXmlEntities(match[1]!.trim())
+  );
+}
+
+function decodeXmlEntities(value: string): string {
+  return value
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, "&");
+}
+
+function cleanTags(tags: string[]): string[] {
+  return [
+    ...new Set(tags.map((tag) => tag.trim().toLowerCase()).filter(Boolean)),
+  ];
+}
+
+function definedOnly<T extends object>(value: T): Partial<T> {
+  return Object.fromEntries(
+    Object.entries(value).filter(([, field]) => field !== undefined)
+  ) as Partial<T>;
+}
+
+function tokenize(value: string): string[] {
+  return value
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter((token) => token.length > 0);
+}
+
+function toLibraryId(relativePath: string): number {
+  // 48 bits of the path hash keeps IDs stable across restarts and within
+  // Number.MAX_SAFE_INTEGER.
+  return createHash("sha1").update(relativePath).digest().readUIntBE(0, 6);
+}
+
+/**
+ * Keeps entries whose tokens cover every meaningful query term (prefix
+ * matches count) and orders them by how many terms matched exactly.
+ */
+function rankMatches(
+  entries: LibraryEntry[],
+  query: string,
+  order: "popular" | "latest" | undefined
+): LibraryEntry[] {
+  const terms = tokenize(query).filter((term) => !STOP_WORDS.has(term));
+
+  const scored: Array<{ entry: LibraryEntry; score: number }> = [];
+  for (const entry of entries) {
+    let score = 0;
+    const matchesAll = terms.every((term) => {
+      if (entry.tokens.includes(term)) {
+        score += 2;
+        return true;
+      }
+      if (entry.tokens.some((token) => token.startsWith(term))) {
+        score += 1;
+        return true;
+      }
+      return false;
+    });
+    if (matchesAll) {
+      scored.push({ entry, score });
+    }
+  }
+
+  return scored
+    .sort((a, b) =>
+      order === "latest"
+        ? b.entry.modifiedAt - a.entry.modifiedAt
+        : b.score - a.score ||
+          a.entry.relativePath.localeCompare(b.entry.relativePath)
+    )
+    .map(({ entry }) => entry);
+}
+
+function matchesImageFilters(
+  entry: LibraryEntry,
+  params: SearchImagesParams
+): boolean {
+  const width = entry.width ?? 0;
+  const height = entry.height ?? 0;
+  if (params.orientation === "horizontal" && width < height) return false;
+  if (params.orientation === "vertical" && height < width) return false;
+  if (
+    params.image_type &&
+    params.image_type !== "all" &&
+    (entry.mediaType ?? "photo") !== params.image_type
+  ) {
+    return false;
+  }
+  return matchesCommonFilters(entry, params);
+}
+
+function matchesVideoFilters(
+  entry: LibraryEntry,
+  params: SearchVideosParams
+): boolean {
+  if (!matchesDuration(entry.durationSeconds ?? 0, params)) return false;
+  if (
+    params.video_type &&
+    params.video_type !== "all" &&
+    (entry.mediaType ?? "film") !== params.video_type
+  ) {
+    return false;
+  }
+  return matchesCommonFilters(entry, params);
+}
+
+function matchesCommonFilters(
+  entry: LibraryEntry,
+  params: SearchImagesParams | SearchVideosParams
+): boolean {
+  if (params.category && entry.category !== params.category) return false;
+  if (params.editors_choice && !entry.editorsChoice) return false;
+  if ((entry.width ?? 0) < (params.min_width ?? 0)) return false;
+  if ((entry.height ?? 0) < (params.min_height ?? 0)) return false;
+  return true;
+}
+
+function resolveImageFilters(params: SearchImagesParams): AppliedFilters {
+  const filters = resolveCommonFilters(params);
+  if (params.orientation && params.orientation !== "all") {
+    filters.orientation = params.orientation;
+  }
+  if (params.image_type && params.image_type !== "all") {
+    filters.image_type = params.image_type;
+  }
+  return filters;
+}
+
+function resolveVideoFilters(params: SearchVideosParams): AppliedFilters {
+  const filters = resolveCommonFilters(params);
+  if (params.video_type && params.video_type !== "all") {
+    filters.video_type = params.video_type;
+  }
+  if (params.min_duration !== undefined) {
+    filters.min_duration = params.min_duration;
+  }
+  if (params.max_duration !== undefined) {
+    filters.max_duration = params.max_duration;
+  }
+  return filters;
+}
+
+function resolveCommonFilters(
+  params: SearchImagesParams | SearchVideosParams
+): AppliedFilters {
+  const filters: AppliedFilters = {};
+  if (params.category) filters.category = params.category;
+  if (params.min_width) filters.min_width = params.min_width;
+  if (params.min_height) filters.min_height = params.min_height;
+  if (params.editors_choice) filters.editors_choice = true;
+  if (params.order) filters.order = params.order;
+  return filters;
+}
+
+function paginate<T>(
+  matches: LibraryEntry[],
+  params: { page?: number; per_page?: number },
+  filters: AppliedFilters,
+  toResult: (entry: LibraryEntry) => T
+): {
+  results: T[];
+  totalHits: number;
+  pagination: PaginationInfo;
+  filters: AppliedFilters;
+} {
+  const perPage = params.per_page ?? serverConfig.defaultPerPage;
+  const page = params.page ?? 1;
+  const start = (page - 1) * perPage;
+  const hasMore = start + perPage < matches.length;
+
+  return {
+    results: matches.slice(start, start + perPage).map(toResult),
+    totalHits: matches.length,
+    pagination: {
+      page,
+      perPage,
+      hasMore,
+      nextPage: hasMore ? page + 1 : null,
+    },
+    filters,
+  };
+}
@@ -0,0 +1,130 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+import { LogLevel, logLevelValues, serverConfig } from "./config.js";
+
+export type LogFields = Record<string, unknown>;
+
+type RequestContext = {
+  requestId: string;
+};
+
+const REDACTED = "[REDACTED]";
+const SECRET_QUERY_PATTERN =
+  /([?&](?:key|api_key|apikey|token|access_token)=)[^&\s"']+/gi;
+const SECRET_FIELD_PATTERN =
+  /^(?:authorization|proxy-authorization|cookie|set-cookie|x-api-key|api_?key|token|tokens|secret|password)$/i;
+
+const requestContext = new AsyncLocalStorage<RequestContext>();
+
+// Configured credentials are masked wherever they appear, not only in the
+// places we know to look.
+const knownSecrets = [
+  serverConfig.pixabayApiKey,
+  serverConfig.pexelsApiKey,
+  serverConfig.urlSigningKey,
+  ...serverConfig.auth.tokens.map((entry) =>
+    entry.slice(entry.indexOf(":") + 1)
+  ),
+].filter((secret): secret is string => !!secret && secret.length >= 6);
+
+/** Runs `task` with a request ID that every log line inside it carries. */
+export function runWithRequestContext<T>(requestId: string, task: () => T): T {
+  return requestContext.run({ requestId }, task);
+}
+
+export function currentRequestId(): string | undefined {
+  return requestContext.getStore()?.requestId;
+}
+
+/**
+ * Writes one JSON object per line: errors to stderr, the rest to stdout.
+ * Over stdio everything goes to stderr so stdout carries only the protocol.
+ */
+export class Logger {
+  constructor(private readonly bindings: LogFields = {}) {}
+
+  child(bindings: LogFields): Logger {
+    return new Logger({ ...this.bindings, ...bindings });
+  }
+
+  debug(message: string, fields?: LogFields) {
+    this.write("debug", message, fields);
+  }
+
+  info(message: string, fields?: LogFields) {
+    this.write("info", message, fields);
+  }
+
+  warn(message: string, fields?: LogFields) {
+    this.write("warn", message, fields);
+  }
+
+  error(message: string, fields?: LogFields) {
+    this.write("error", message, fields);
+  }
+
+  private write(level: LogLevel, message: string, fields: LogFields = {}) {
+    if (
+      logLevelValues.indexOf(level) <
+      logLevelValues.indexOf(serverConfig.logging.level)
+    ) {
+      return;
+    }
+
+    const entry = redact({
+      time: new Date().toISOString(),
+      level,
+      msg: message,
+      requestId: currentRequestId(),
+      ...this.bindings,
+      ...fields,
+    });
+    const line = `${JSON.stringify(entry)}\n`;
+    if (serverConfig.transport === "stdio" || level === "error") {
+      process.stderr.write(line);
+    } else {
+      process.stdout.write(line);
+    }
+  }
+}
+
+export const logger = new Logger();
+
+/** Masks credentials carried in query parameters, e.g. Pixabay's `key`. */
+export function redactUrl(url: string): string {
+  return redactString(url);
+}
+
+function redactString(value: string): string {
+  let redacted = value.replace(SECRET_QUERY_PATTERN, `$1${REDACTED}`);
+  for (const secret of knownSecrets) {
+    redacted = redacted.split(secret).join(REDACTED);
+  }
+  return redacted;
+}
+
+function redact(value: unknown, depth = 0): unknown {
+  if (typeof value === "string") {
+    return redactString(value);
+  }
+  if (value instanceof Error) {
+    return redact(
+      { name: value.name, message: value.message, stack: value.stack },
+      depth
+    );
+  }
+  if (value === null || typeof value !== "object" || depth > 5) {
+    return value;
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => redact(item, depth + 1));
+  }
+
+  const output: LogFields = {};
+  for (const [key, field] of Object.entries(value)) {
+    if (field === undefined) continue;
+    output[key] = SECRET_FIELD_PATTERN.test(key)
+      ? REDACTED
+      : redact(field, depth + 1);
+  }
+  return output;
+}
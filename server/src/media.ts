@@ -0,0 +1,553 @@
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import { serverConfig } from "./config.js";
+import {
+  CacheStatus,
+  CachedSearchResult,
+  CachingMediaProvider,
+  withSearchCache,
+} from "./cache.js";
+import { LocalLibraryProvider } from "./library.js";
+import { logger } from "./logger.js";
+import { PexelsClient } from "./pexels.js";
+import {
+  PixabayClient,
+  resolveLanguage,
+  supportedLanguageOf,
+} from "./pixabay.js";
+import { MediaProxy } from "./proxy.js";
+import { ContentPolicy } from "./safety.js";
+import {
+  MediaItemDetails,
+  RequestOptions,
+  SearchImagesParams,
+  SearchVideosParams,
+} from "./provider.js";
+import { RateLimitInfo } from "./scheduler.js";
+import {
+  AppliedFilters,
+  ImageResult,
+  MediaDetails,
+  MediaDetailsInput,
+  MediaLicense,
+  MediaSource,
+  PaginationInfo,
+  SearchImagesInput,
+  SearchNotice,
+  SearchVideosInput,
+  VideoResult,
+} from "./schemas.js";
+
+export type SourceSelection = MediaSource | "all";
+
+export type MediaSearchResult<T extends { id: number }> = {
+  results: T[];
+  totalHits: number;
+  pagination: PaginationInfo;
+  filters: AppliedFilters;
+  rateLimit?: RateLimitInfo;
+  cacheStatus: CacheStatus;
+  sources: MediaSource[];
+  notices: SearchNotice[];
+  /** Languages the query ran in, the caller's first. */
+  languages: string[];
+};
+
+export type MediaImageSearchResult = MediaSearchResult<ImageResult>;
+
+export type MediaVideoSearchResult = MediaSearchResult<VideoResult>;
+
+export type MediaDetailsResult =
+  | { mediaType: "image"; result: ImageResult; details: MediaDetails }
+  | { mediaType: "video"; result: VideoResult; details: MediaDetails };
+
+// Multilingual searches also run in this language.
+const FALLBACK_LANGUAGE = "en";
+
+/**
+ * Fans a search out to the selected providers and merges what comes back.
+ * With `source: "all"`, per_page applies to each provider and a failing
+ * provider is reported as a notice instead of failing the whole call.
+ * When no source is given and a local library is configured, the library is
+ * searched first and the default provider is only used if it has no match.
+ * With `multilingual`, each stock provider is also searched in English and
+ * the two result lists are merged. The content policy decides safesearch and
+ * hides items tagged with blocked terms; a source without a safesearch filter
+ * is skipped while safesearch is forced.
+ */
+export class MediaSearchService {
+  constructor(
+    private readonly providers: Map<MediaSource, CachingMediaProvider>,
+    readonly defaultSource: MediaSource,
+    private readonly policy: ContentPolicy
+  ) {}
+
+  getProvider(source: MediaSource): CachingMediaProvider {
+    const provider = this.providers.get(source);
+    if (!provider) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `The ${source} media source is not configured on this server.`
+      );
+    }
+    return provider;
+  }
+
+  attributionFor(sources: MediaSource[]): string {
+    const credits = sources
+      .map((source) => this.providers.get(source)?.attribution)
+      .filter((credit): credit is string => Boolean(credit));
+    if (credits.length === 0) {
+      credits.push(this.getProvider(this.defaultSource).attribution);
+    }
+    return `Media provided by ${joinWithAnd(credits)}.`;
+  }
+
+  licenseFor(source: MediaSource): MediaLicense {
+    return this.getProvider(source).license;
+  }
+
+  displayNamesFor(sources: MediaSource[]): string {
+    return joinWithAnd(
+      sources.map((source) => this.providers.get(source)?.displayName ?? source)
+    );
+  }
+
+  async searchImages(
+    {
+      source,
+      multilingual,
+      ...params
+    }: SearchImagesInput & { locale: string },
+    options: RequestOptions = {}
+  ): Promise<MediaImageSearchResult> {
+    const locales = localesFor(params.locale, multilingual);
+    const safesearch = this.policy.safeSearch(params.safesearch);
+    const result = await this.fanOut(source, safesearch, (provider) =>
+      searchInLocales(provider, locales, (locale) =>
+        provider.searchImages(
+          { ...params, safesearch, locale } as SearchImagesParams,
+          options
+        )
+      )
+    );
+    return this.applyPolicy(withLanguages(result, params.locale, locales));
+  }
+
+  async searchVideos(
+    {
+      source,
+      multilingual,
+      ...params
+    }: SearchVideosInput & { locale: string },
+    options: RequestOptions = {}
+  ): Promise<MediaVideoSearchResult> {
+    const locales = localesFor(params.locale, multilingual);
+    const safesearch = this.policy.safeSearch(params.safesearch);
+    const result = await this.fanOut(source, safesearch, (provider) =>
+      searchInLocales(provider, locales, (locale) =>
+        provider.searchVideos(
+          { ...params, safesearch, locale } as SearchVideosParams,
+          options
+        )
+      )
+    );
+    return this.applyPolicy(withLanguages(result, params.locale, locales));
+  }
+
+  /** Looks up a single item by ID, or returns null if the source has none. */
+  async getDetails(
+    { id, media_type, source }: MediaDetailsInput,
+    options: RequestOptions = {}
+  ): Promise<MediaDetailsResult | null> {
+    const provider = this.getProvider(source ?? this.defaultSource);
+    const toDetails = (
+      item: MediaItemDetails<ImageResult | VideoResult>
+    ): MediaDetails => ({
+      mediaType: media_type,
+      id,
+      source: provider.id,
+      renditions: item.result.renditions,
+      stats: item.stats,
+      license: provider.license,
+    });
+
+    if (media_type === "image") {
+      const item = await provider.getImage(id, options);
+      return item && this.policy.allowsItem(item.result)
+        ? { mediaType: "image", result: item.result, details: toDetails(item) }
+        : null;
+    }
+    const item = await provider.getVideo(id, options);
+    return item && this.policy.allowsItem(item.result)
+      ? { mediaType: "video", result: item.result, details: toDetails(item) }
+      : null;
+  }
+
+  private applyPolicy<T extends { id: number; tags: string[] }>(
+    result: MediaSearchResult<T>
+  ): MediaSearchResult<T> {
+    const { results, removed } = this.policy.filterResults(result.results);
+    if (removed === 0) {
+      return result;
+    }
+    return {
+      ...result,
+      results,
+      notices: [
+        ...result.notices,
+        {
+          code: "policy_filtered",
+          message: `${removed} result${removed === 1 ? " was" : "s were"} hidden by this server's content policy.`,
+        },
+      ],
+    };
+  }
+
+  private resolveProviders(
+    selection: SourceSelection | undefined
+  ): CachingMediaProvider[] {
+    if (selection === "all") {
+      // Keep the library, then the default provider, first so their
+      // results lead the merge.
+      return [...this.providers.values()].sort(
+        (a, b) => this.mergeRank(a.id) - this.mergeRank(b.id)
+      );
+    }
+    return [this.getProvider(selection ?? this.defaultSource)];
+  }
+
+  private mergeRank(source: MediaSource): number {
+    if (source === "library") return 0;
+    return source === this.defaultSource ? 1 : 2;
+  }
+
+  private async fanOut<T extends { id: number }>(
+    selection: SourceSelection | undefined,
+    safesearch: boolean | undefined,
+    search: (
+      provider: CachingMediaProvider
+    ) => Promise<CachedSearchResult<MediaSearchPage<T>>>
+  ): Promise<Omit<MediaSearchResult<T>, "languages">> {
+    const library = this.providers.get("library");
+    if (selection === undefined && library) {
+      const local = await this.searchLibraryFirst(library, search);
+      if (local) {
+        return local;
+      }
+    }
+
+    const notices: SearchNotice[] = [];
+    const providers = this.withSafeSearch(
+      this.resolveProviders(selection),
+      safesearch,
+      notices
+    );
+    const settled = await Promise.allSettled(providers.map(search));
+
+    const pages: Array<{
+      source: MediaSource;
+      page: CachedSearchResult<MediaSearchPage<T>>;
+    }> = [];
+    let firstError: unknown;
+
+    settled.forEach((outcome, index) => {
+      const provider = providers[index]!;
+      if (outcome.status === "fulfilled") {
+        pages.push({ source: provider.id, page: outcome.value });
+        notices.push(...(outcome.value.notices ?? []));
+        const collapsed = outcome.value.collapsed ?? 0;
+        if (collapsed > 0) {
+          notices.push({
+            code: "duplicates_collapsed",
+            message: `${collapsed} near-duplicate ${provider.displayName} result${collapsed === 1 ? " was" : "s were"} collapsed, so this page has fewer results than requested.`,
+          });
+        }
+        return;
+      }
+      firstError ??= outcome.reason;
+      notices.push({
+        code: "provider_unavailable",
+        message: `${provider.displayName} results are unavailable: ${describeError(outcome.reason)}`,
+      });
+    });
+
+    if (pages.length === 0) {
+      throw firstError;
+    }
+
+    return mergePages(pages, notices);
+  }
+
+  /**
+   * Drops sources that cannot honour a forced safesearch, and notes the ones
+   * searched without a safesearch the caller asked for.
+   */
+  private withSafeSearch(
+    providers: CachingMediaProvider[],
+    safesearch: boolean | undefined,
+    notices: SearchNotice[]
+  ): CachingMediaProvider[] {
+    if (safesearch !== true) {
+      return providers;
+    }
+    const usable = providers.filter((provider) => {
+      if (provider.supportsSafeSearch) {
+        return true;
+      }
+      if (this.policy.allowsUnfilteredSource(provider.id)) {
+        notices.push({
+          code: "safesearch_unsupported",
+          message: `${provider.displayName} cannot filter out explicit content, so its results were not safe-searched.`,
+        });
+        return true;
+      }
+      notices.push({
+        code: "safesearch_unsupported",
+        message: `${provider.displayName} was not searched because it cannot filter out explicit content and this server requires safe search.`,
+      });
+      return false;
+    });
+    if (usable.length === 0) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `${this.displayNamesFor(providers.map((provider) => provider.id))} cannot filter out explicit content, and this server requires safe search. Search another source.`
+      );
+    }
+    return usable;
+  }
+
+  private async searchLibraryFirst<T extends { id: number }>(
+    library: CachingMediaProvider,
+    search: (
+      provider: CachingMediaProvider
+    ) => Promise<CachedSearchResult<MediaSearchPage<T>>>
+  ): Promise<Omit<MediaSearchResult<T>, "languages"> | null> {
+    try {
+      const page = await search(library);
+      if (page.totalHits === 0) {
+        return null;
+      }
+      return { ...page, sources: [library.id], notices: [] };
+    } catch (error) {
+      logger.warn("Media library search failed", { error });
+      return null;
+    }
+  }
+}
+
+type MediaSearchPage<T> = {
+  results: T[];
+  totalHits: number;
+  pagination: PaginationInfo;
+  filters: AppliedFilters;
+  rateLimit?: RateLimitInfo;
+  collapsed?: number;
+  notices?: SearchNotice[];
+};
+
+function mergePages<T extends { id: number }>(
+  pages: Array<{
+    source: MediaSource;
+    page: CachedSearchResult<MediaSearchPage<T>>;
+  }>,
+  notices: SearchNotice[]
+): Omit<MediaSearchResult<T>, "languages"> {
+  const [first, ...rest] = pages;
+  if (!first) {
+    throw new Error("mergePages requires at least one page.");
+  }
+  if (rest.length === 0) {
+    return { ...first.page, sources: [first.source], notices };
+  }
+
+  const hasMore = pages.some(({ page }) => page.pagination.hasMore);
+  return {
+    results: interleave(pages.map(({ page }) => page.results)),
+    totalHits: pages.reduce((sum, { page }) => sum + page.totalHits, 0),
+    pagination: {
+      ...first.page.pagination,
+      hasMore,
+      nextPage: hasMore ? first.page.pagination.page + 1 : null,
+    },
+    // Later pages win on conflicts so the default provider's view is kept.
+    filters: Object.assign(
+      {},
+      ...pages.map(({ page }) => page.filters).reverse()
+    ) as AppliedFilters,
+    rateLimit: mostConstrained(pages.map(({ page }) => page.rateLimit)),
+    cacheStatus: mergeCacheStatus(pages.map(({ page }) => page.cacheStatus)),
+    sources: pages.map(({ source }) => source),
+    notices,
+  };
+}
+
+/** The caller's locale, plus English when a multilingual search asks for it. */
+function localesFor(locale: string, multilingual = false): string[] {
+  return multilingual && resolveLanguage(locale) !== FALLBACK_LANGUAGE
+    ? [locale, FALLBACK_LANGUAGE]
+    : [locale];
+}
+
+/**
+ * Runs one provider's search in each locale and merges the pages, keeping
+ * the first copy of an item found in several languages and tagging every
+ * item with the language that found it. A language whose search fails is
+ * reported in a notice; the call only fails if every language does.
+ */
+async function searchInLocales<T extends { id: number; language?: string }>(
+  provider: CachingMediaProvider,
+  locales: string[],
+  search: (locale: string) => Promise<CachedSearchResult<MediaSearchPage<T>>>
+): Promise<CachedSearchResult<MediaSearchPage<T>>> {
+  // Library metadata is not translated, so a second pass finds nothing new.
+  if (locales.length === 1 || provider.id === "library") {
+    return search(locales[0]!);
+  }
+
+  const settled = await Promise.allSettled(locales.map(search));
+  const pages = settled.flatMap((outcome, index) =>
+    outcome.status === "fulfilled"
+      ? [{ language: resolveLanguage(locales[index]), page: outcome.value }]
+      : []
+  );
+  const [first] = pages;
+  if (!first) {
+    throw (settled[0] as PromiseRejectedResult).reason;
+  }
+  const found = joinWithAnd(pages.map(({ language }) => `"${language}"`));
+  const notices = settled.flatMap((outcome, index): SearchNotice[] =>
+    outcome.status === "rejected"
+      ? [
+          {
+            code: "language_failed",
+            message: `The ${provider.displayName} search in "${resolveLanguage(locales[index])}" failed, so only results found in ${found} are shown: ${describeError(outcome.reason)}`,
+          },
+        ]
+      : []
+  );
+
+  const seen = new Set<number>();
+  const results = interleave(
+    pages.map(({ language, page }) =>
+      page.results.map((item) => ({ ...item, language }))
+    )
+  ).filter((item) => {
+    if (seen.has(item.id)) return false;
+    seen.add(item.id);
+    return true;
+  });
+  const hasMore = pages.some(({ page }) => page.pagination.hasMore);
+  return {
+    results,
+    // The languages overlap, so the larger count is the honest lower bound.
+    totalHits: Math.max(...pages.map(({ page }) => page.totalHits)),
+    pagination: {
+      ...first.page.pagination,
+      hasMore,
+      nextPage: hasMore ? first.page.pagination.page + 1 : null,
+    },
+    filters: first.page.filters,
+    rateLimit: mostConstrained(pages.map(({ page }) => page.rateLimit)),
+    cacheStatus: mergeCacheStatus(pages.map(({ page }) => page.cacheStatus)),
+    collapsed: pages.reduce((sum, { page }) => sum + (page.collapsed ?? 0), 0),
+    notices,
+  };
+}
+
+/**
+ * Records the languages searched, and says so when the caller's language is
+ * not one Pixabay supports instead of quietly searching in another.
+ */
+function withLanguages<T extends { id: number }>(
+  result: Omit<MediaSearchResult<T>, "languages">,
+  locale: string,
+  locales: string[]
+): MediaSearchResult<T> {
+  const languages = [...new Set(locales.map(resolveLanguage))];
+  const notices = [...result.notices];
+  if (
+    result.sources.includes("pixabay") &&
+    supportedLanguageOf(locale) === null
+  ) {
+    notices.push({
+      code: "language_fallback",
+      message: `Pixabay cannot search in "${locale}", so the query ran in "${resolveLanguage(locale)}".`,
+    });
+  }
+  return { ...result, notices, languages };
+}
+
+function interleave<T>(lists: T[][]): T[] {
+  const merged: T[] = [];
+  const longest = Math.max(0, ...lists.map((list) => list.length));
+  for (let index = 0; index < longest; index += 1) {
+    for (const list of lists) {
+      const item = list[index];
+      if (item !== undefined) {
+        merged.push(item);
+      }
+    }
+  }
+  return merged;
+}
+
+function mostConstrained(
+  limits: Array<RateLimitInfo | undefined>
+): RateLimitInfo | undefined {
+  let result: RateLimitInfo | undefined;
+  for (const limit of limits) {
+    if (!limit) continue;
+    if (
+      !result ||
+      (limit.remaining ?? Infinity) < (result.remaining ?? Infinity)
+    ) {
+      result = limit;
+    }
+  }
+  return result;
+}
+
+function mergeCacheStatus(statuses: CacheStatus[]): CacheStatus {
+  if (statuses.includes("stale")) return "stale";
+  if (statuses.every((status) => status === "hit")) return "hit";
+  if (statuses.every((status) => status === "bypass")) return "bypass";
+  return "miss";
+}
+
+function describeError(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+function joinWithAnd(items: string[]): string {
+  if (items.length <= 1) {
+    return items[0] ?? "";
+  }
+  return `${items.slice(0, -1).join(", ")} and ${items[items.length - 1]}`;
+}
+
+export function createMediaSearchService(
+  policy: ContentPolicy,
+  library: LocalLibraryProvider | null = null,
+  proxy: MediaProxy | null = null
+): MediaSearchService {
+  const providers = new Map<MediaSource, CachingMediaProvider>();
+  if (library) {
+    // The index is already in memory, so caching would only hide new files.
+    providers.set(
+      "library",
+      withSearchCache(library, { ttlSeconds: 0, maxEntries: 0, directory: null })
+    );
+  }
+  const pixabay = new PixabayClient(proxy);
+  proxy?.setResolver((kind, id, name, signal) =>
+    pixabay.resolveMediaUrl(kind, id, name, { signal })
+  );
+  providers.set("pixabay", withSearchCache(pixabay));
+  if (serverConfig.pexelsApiKey) {
+    providers.set(
+      "pexels",
+      withSearchCache(new PexelsClient(serverConfig.pexelsApiKey))
+    );
+  }
+  return new MediaSearchService(providers, "pixabay", policy);
+}
@@ -0,0 +1,208 @@
+export type MetricLabels = Record<string, string>;
+
+type MetricType = "counter" | "gauge" | "histogram";
+
+interface Metric {
+  readonly name: string;
+  render(): string[];
+}
+
+type Sample = {
+  labels: MetricLabels;
+  value: number;
+};
+
+type HistogramSeries = {
+  labels: MetricLabels;
+  buckets: number[];
+  sum: number;
+  count: number;
+};
+
+export const METRICS_ROUTE = "/metrics";
+export const METRICS_CONTENT_TYPE = "text/plain; version=0.0.4; charset=utf-8";
+
+// Seconds; covers cache hits through slow upstream retries.
+const DEFAULT_BUCKETS = [
+  0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10,
+];
+
+const metrics: Metric[] = [];
+
+/** A monotonically increasing count per label set. */
+export class Counter implements Metric {
+  private readonly values = new Map<string, Sample>();
+
+  constructor(
+    readonly name: string,
+    private readonly help: string
+  ) {
+    metrics.push(this);
+  }
+
+  inc(labels: MetricLabels = {}, amount = 1) {
+    const key = labelKey(labels);
+    const entry = this.values.get(key) ?? { labels, value: 0 };
+    entry.value += amount;
+    this.values.set(key, entry);
+  }
+
+  render(): string[] {
+    return [
+      ...header(this.name, this.help, "counter"),
+      ...[...this.values.values()].map(
+        ({ labels, value }) => `${this.name}${formatLabels(labels)} ${value}`
+      ),
+    ];
+  }
+}
+
+/** A value that can go up and down, set directly or read on scrape. */
+export class Gauge implements Metric {
+  private readonly values = new Map<string, Sample>();
+
+  constructor(
+    readonly name: string,
+    private readonly help: string,
+    private readonly collect?: () => number
+  ) {
+    metrics.push(this);
+  }
+
+  set(labels: MetricLabels, value: number) {
+    this.values.set(labelKey(labels), { labels, value });
+  }
+
+  render(): string[] {
+    const samples = this.collect
+      ? [{ labels: {}, value: this.collect() }]
+      : [...this.values.values()];
+    return [
+      ...header(this.name, this.help, "gauge"),
+      ...samples.map(
+        ({ labels, value }) => `${this.name}${formatLabels(labels)} ${value}`
+      ),
+    ];
+  }
+}
+
+/** Observations counted into cumulative buckets per label set. */
+export class Histogram implements Metric {
+  private readonly series = new Map<string, HistogramSeries>();
+
+  constructor(
+    readonly name: string,
+    private readonly help: string,
+    private readonly bucketBounds: number[] = DEFAULT_BUCKETS
+  ) {
+    metrics.push(this);
+  }
+
+  observe(labels: MetricLabels, value: number) {
+    const key = labelKey(labels);
+    let series = this.series.get(key);
+    if (!series) {
+      series = {
+        labels,
+        buckets: this.bucketBounds.map(() => 0),
+        sum: 0,
+        count: 0,
+      };
+      this.series.set(key, series);
+    }
+    this.bucketBounds.forEach((bound, index) => {
+      if (value <= bound) series!.buckets[index]! += 1;
+    });
+    series.sum += value;
+    series.count += 1;
+  }
+
+  /** Starts a timer; call the returned function to observe elapsed seconds. */
+  startTimer(): (labels: MetricLabels) => void {
+    const startedAt = process.hrtime.bigint();
+    return (labels) => {
+      const elapsed = Number(process.hrtime.bigint() - startedAt) / 1e9;
+      this.observe(labels, elapsed);
+    };
+  }
+
+  render(): string[] {
+    const lines = header(this.name, this.help, "histogram");
+    for (const { labels, buckets, sum, count } of this.series.values()) {
+      this.bucketBounds.forEach((bound, index) => {
+        lines.push(
+          `${this.name}_bucket${formatLabels({ ...labels, le: String(bound) })} ${buckets[index]}`
+        );
+      });
+      lines.push(
+        `${this.name}_bucket${formatLabels({ ...labels, le: "+Inf" })} ${count}`,
+        `${this.name}_sum${formatLabels(labels)} ${sum}`,
+        `${this.name}_count${formatLabels(labels)} ${count}`
+      );
+    }
+    return lines;
+  }
+}
+
+/** Renders every registered metric in the Prometheus text format. */
+export function renderMetrics(): string {
+  return `${metrics.flatMap((metric) => metric.render()).join("\n")}\n`;
+}
+
+export const toolCalls = new Counter(
+  "mcp_tool_calls_total",
+  "MCP tool calls by tool name and outcome."
+);
+
+export const toolCallDuration = new Histogram(
+  "mcp_tool_call_duration_seconds",
+  "MCP tool call latency by tool name and outcome."
+);
+
+export const upstreamRequestDuration = new Histogram(
+  "upstream_request_duration_seconds",
+  "Stock media API request latency by upstream and HTTP status."
+);
+
+export const upstreamRateLimitRemaining = new Gauge(
+  "upstream_rate_limit_remaining",
+  "Requests left in the upstream rate limit window, as last reported."
+);
+
+export const searchCacheLookups = new Counter(
+  "search_cache_lookups_total",
+  "Search cache lookups by provider and result (hit, miss, stale, bypass)."
+);
+
+export const widgetResourceReads = new Counter(
+  "widget_resource_reads_total",
+  "Times the gallery widget resource was fetched."
+);
+
+function header(name: string, help: string, type: MetricType): string[] {
+  return [`# HELP ${name} ${help}`, `# TYPE ${name} ${type}`];
+}
+
+function labelKey(labels: MetricLabels): string {
+  return JSON.stringify(
+    Object.entries(labels).sort(([a], [b]) => a.localeCompare(b))
+  );
+}
+
+function formatLabels(labels: MetricLabels): string {
+  const entries = Object.entries(labels);
+  if (entries.length === 0) {
+    return "";
+  }
+  const formatted = entries.map(
+    ([key, value]) => `${key}="${escapeLabelValue(value)}"`
+  );
+  return `{${formatted.join(",")}}`;
+}
+
+function escapeLabelValue(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/\n/g, "\\n")
+    .replace(/"/g, '\\"');
+}
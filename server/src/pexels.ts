@@ -0,0 +1,629 @@
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import { serverConfig } from "./config.js";
+import {
+  AppliedFilters,
+  ImageResult,
+  MediaRendition,
+  PaginationInfo,
+  PexelsPhoto,
+  PexelsVideo,
+  VideoResult,
+  pexelsPhotoSchema,
+  pexelsVideoSchema,
+} from "./schemas.js";
+import {
+  ImageSearchResult,
+  MediaItemDetails,
+  MediaProvider,
+  RequestOptions,
+  SearchImagesParams,
+  SearchVideosParams,
+  VideoSearchResult,
+  collectFilteredPage,
+  matchesDuration,
+  sanitizeUrl,
+  toQueryParams,
+} from "./provider.js";
+import { RateLimitInfo } from "./scheduler.js";
+import {
+  UpstreamClient,
+  UpstreamHttpError,
+  parseHeader,
+} from "./upstream.js";
+
+type PexelsPhotoSearchResponse = {
+  total_results: number;
+  photos: unknown[];
+};
+
+type PexelsVideoSearchResponse = {
+  total_results: number;
+  videos: unknown[];
+};
+
+const RATE_LIMIT_HEADERS = {
+  limit: "x-ratelimit-limit",
+  remaining: "x-ratelimit-remaining",
+  reset: "x-ratelimit-reset",
+} as const;
+
+const SUPPORTED_LOCALES = [
+  "en-US",
+  "pt-BR",
+  "es-ES",
+  "ca-ES",
+  "de-DE",
+  "it-IT",
+  "fr-FR",
+  "sv-SE",
+  "id-ID",
+  "pl-PL",
+  "ja-JP",
+  "zh-TW",
+  "zh-CN",
+  "ko-KR",
+  "th-TH",
+  "nl-NL",
+  "hu-HU",
+  "vi-VN",
+  "cs-CZ",
+  "da-DK",
+  "fi-FI",
+  "uk-UA",
+  "el-GR",
+  "ro-RO",
+  "nb-NO",
+  "sk-SK",
+  "tr-TR",
+  "ru-RU",
+];
+
+const ORIENTATION_MAP: Record<string, string | undefined> = {
+  horizontal: "landscape",
+  vertical: "portrait",
+};
+
+// Pexels accepts a single named color; Pixabay-only values are skipped.
+const COLOR_MAP: Record<string, string | undefined> = {
+  red: "red",
+  orange: "orange",
+  yellow: "yellow",
+  green: "green",
+  turquoise: "turquoise",
+  blue: "blue",
+  lilac: "violet",
+  pink: "pink",
+  white: "white",
+  gray: "gray",
+  black: "black",
+  brown: "brown",
+};
+
+const VIDEO_QUALITY_ORDER = ["hd", "sd", "uhd"];
+
+const PHOTO_RENDITION_ORDER = [
+  "tiny",
+  "small",
+  "medium",
+  "large",
+  "portrait",
+  "landscape",
+  "large2x",
+  "original",
+] as const;
+
+// The Pexels API does not expose engagement counts.
+const PEXELS_STATS = {
+  likes: null,
+  downloads: null,
+  views: null,
+  comments: null,
+};
+
+// Pexels has no duration or minimum size parameters, so filtered searches
+// read larger upstream pages and keep the hits that pass.
+const OVERFETCH_FACTOR = 4;
+const MAX_UPSTREAM_PER_PAGE = 80;
+// Pexels has no result window, so a filtered scan stops here to protect the
+// hourly request quota.
+const MAX_SCANNED_PAGES = 10;
+
+export class PexelsClient implements MediaProvider {
+  readonly id = "pexels" as const;
+  readonly displayName = "Pexels";
+  readonly attribution = "Pexels under the Pexels License";
+  // The Pexels API has no explicit-content filter.
+  readonly supportsSafeSearch = false;
+  readonly license = {
+    name: "Pexels License",
+    url: "https://www.pexels.com/license/",
+    summary:
+      "Free to use and modify without attribution. Do not sell unaltered copies, redistribute the content as stock, or imply endorsement by depicted people or brands.",
+  };
+
+  private readonly upstream: UpstreamClient;
+
+  constructor(apiKey: string) {
+    this.upstream = new UpstreamClient({
+      name: "Pexels",
+      apiKeyEnvVar: "PEXELS_API_KEY",
+      parseRateLimit: parsePexelsRateLimit,
+      headers: { Authorization: apiKey },
+    });
+  }
+
+  async searchImages(
+    params: SearchImagesParams,
+    { signal }: RequestOptions = {}
+  ): Promise<ImageSearchResult> {
+    const perPage = params.per_page ?? serverConfig.defaultPerPage;
+    const page = params.page ?? 1;
+    const filters = resolveImageFilters(params);
+    const fetchPhotos = async (
+      upstreamPage: number,
+      upstreamPerPage: number
+    ) => {
+      const searchParams = new URLSearchParams({
+        query: params.query,
+        per_page: String(upstreamPerPage),
+        page: String(upstreamPage),
+        locale: resolvePexelsLocale(params.locale),
+        ...toQueryParams(omitClientSideFilters(filters)),
+      });
+      const { json, rateLimit } =
+        await this.upstream.getJson<PexelsPhotoSearchResponse>(
+          `${serverConfig.pexelsBaseUrl}search?${searchParams.toString()}`,
+          { signal }
+        );
+      const photos = Array.isArray(json.photos) ? json.photos : [];
+      return {
+        items: photos.flatMap((rawPhoto) => {
+          const parsed = pexelsPhotoSchema.safeParse(rawPhoto);
+          return parsed.success ? [parsed.data] : [];
+        }),
+        received: photos.length,
+        totalHits: json.total_results ?? photos.length,
+        rateLimit,
+      };
+    };
+
+    if (!params.min_width && !params.min_height) {
+      const { items, totalHits, rateLimit } = await fetchPhotos(page, perPage);
+      return {
+        results: items.map((photo) => this.toImageResult(photo)),
+        totalHits,
+        pagination: buildPagination(page, perPage, page * perPage < totalHits),
+        filters,
+        rateLimit,
+      };
+    }
+
+    const { results, hasMore, totalHits, rateLimit } = await scanFiltered(
+      page,
+      perPage,
+      fetchPhotos,
+      (photo) =>
+        photo.width >= (params.min_width ?? 0) &&
+        photo.height >= (params.min_height ?? 0)
+    );
+    return {
+      results: results.map((photo) => this.toImageResult(photo)),
+      totalHits,
+      pagination: buildPagination(page, perPage, hasMore),
+      filters,
+      rateLimit,
+    };
+  }
+
+  async searchVideos(
+    params: SearchVideosParams,
+    { signal }: RequestOptions = {}
+  ): Promise<VideoSearchResult> {
+    if (
+      params.min_duration !== undefined &&
+      params.max_duration !== undefined &&
+      params.min_duration > params.max_duration
+    ) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        "min_duration must be less than or equal to max_duration."
+      );
+    }
+
+    const perPage = params.per_page ?? serverConfig.defaultPerPage;
+    const page = params.page ?? 1;
+    const filters = resolveVideoFilters(params);
+    const fetchVideos = async (
+      upstreamPage: number,
+      upstreamPerPage: number
+    ) => {
+      const searchParams = new URLSearchParams({
+        query: params.query,
+        per_page: String(upstreamPerPage),
+        page: String(upstreamPage),
+        locale: resolvePexelsLocale(params.locale),
+      });
+      const { json, rateLimit } =
+        await this.upstream.getJson<PexelsVideoSearchResponse>(
+          `${serverConfig.pexelsVideoBaseUrl}search?${searchParams.toString()}`,
+          { signal }
+        );
+      const videos = Array.isArray(json.videos) ? json.videos : [];
+      return {
+        items: videos.flatMap((rawVideo) => {
+          const parsed = pexelsVideoSchema.safeParse(rawVideo);
+          return parsed.success ? [parsed.data] : [];
+        }),
+        received: videos.length,
+        totalHits: json.total_results ?? videos.length,
+        rateLimit,
+      };
+    };
+    const toResults = (videos: PexelsVideo[]) =>
+      videos
+        .map((video) => this.toVideoResult(video, params))
+        .filter((result): result is VideoResult => result !== null);
+
+    const needsClientFilter =
+      params.min_duration !== undefined ||
+      params.max_duration !== undefined ||
+      Boolean(params.min_width || params.min_height);
+    if (!needsClientFilter) {
+      const { items, totalHits, rateLimit } = await fetchVideos(page, perPage);
+      return {
+        results: toResults(items),
+        totalHits,
+        pagination: buildPagination(page, perPage, page * perPage < totalHits),
+        filters,
+        rateLimit,
+      };
+    }
+
+    const { results, hasMore, totalHits, rateLimit } = await scanFiltered(
+      page,
+      perPage,
+      fetchVideos,
+      (video) =>
+        matchesDuration(video.duration, params) &&
+        pickVideoFile(video, params) !== null
+    );
+    return {
+      results: toResults(results),
+      totalHits,
+      pagination: buildPagination(page, perPage, hasMore),
+      filters,
+      rateLimit,
+    };
+  }
+
+  async getImage(
+    id: number,
+    { signal }: RequestOptions = {}
+  ): Promise<MediaItemDetails<ImageResult> | null> {
+    const json = await this.fetchById(
+      `${serverConfig.pexelsBaseUrl}photos/${id}`,
+      signal
+    );
+    const parsed = pexelsPhotoSchema.safeParse(json);
+    if (!parsed.success) {
+      return null;
+    }
+
+    return {
+      result: this.toImageResult(parsed.data),
+      stats: PEXELS_STATS,
+    };
+  }
+
+  async getVideo(
+    id: number,
+    { signal }: RequestOptions = {}
+  ): Promise<MediaItemDetails<VideoResult> | null> {
+    const json = await this.fetchById(
+      `${serverConfig.pexelsVideoBaseUrl}videos/${id}`,
+      signal
+    );
+    const parsed = pexelsVideoSchema.safeParse(json);
+    const result = parsed.success ? this.toVideoResult(parsed.data, {}) : null;
+    if (!parsed.success || !result) {
+      return null;
+    }
+
+    return {
+      result,
+      stats: PEXELS_STATS,
+    };
+  }
+
+  private async fetchById(
+    url: string,
+    signal: AbortSignal | undefined
+  ): Promise<unknown> {
+    try {
+      const { json } = await this.upstream.getJson<unknown>(url, { signal });
+      return json;
+    } catch (error) {
+      if (error instanceof UpstreamHttpError && error.status === 404) {
+        return undefined;
+      }
+      throw error;
+    }
+  }
+
+  private toImageResult(photo: PexelsPhoto): ImageResult {
+    return {
+      id: photo.id,
+      source: this.id,
+      previewUrl: photo.src.medium,
+      pageUrl: photo.url,
+      imageUrl: photo.src.large,
+      imageWidth: photo.width,
+      imageHeight: photo.height,
+      tags: tagsFromPageUrl(photo.url, photo.alt),
+      photographer: {
+        name: photo.photographer,
+        profileUrl: photo.photographer_url,
+      },
+      likes: null,
+      downloads: null,
+      renditions: buildPhotoRenditions(photo),
+    };
+  }
+
+  private toVideoResult(
+    video: PexelsVideo,
+    dimensions: Pick<SearchVideosParams, "min_width" | "min_height">
+  ): VideoResult | null {
+    const file = pickVideoFile(video, dimensions);
+    if (!file) {
+      return null;
+    }
+
+    return {
+      id: video.id,
+      source: this.id,
+      pageUrl: video.url,
+      videoUrl: file.link,
+      previewImageUrl: sanitizeUrl(video.image),
+      width: file.width,
+      height: file.height,
+      durationSeconds: video.duration,
+      tags: tagsFromPageUrl(video.url),
+      creator: {
+        name: video.user.name,
+        profileUrl: video.user.url,
+      },
+      likes: null,
+      downloads: null,
+      renditions: buildVideoRenditions(video),
+    };
+  }
+}
+
+function parsePexelsRateLimit(headers: Headers): RateLimitInfo {
+  // Pexels reports the reset as a UNIX timestamp rather than a countdown.
+  const resetAt = parseHeader(headers.get(RATE_LIMIT_HEADERS.reset));
+  return {
+    limit: parseHeader(headers.get(RATE_LIMIT_HEADERS.limit)),
+    remaining: parseHeader(headers.get(RATE_LIMIT_HEADERS.remaining)),
+    resetSeconds:
+      resetAt === undefined
+        ? undefined
+        : Math.max(0, Math.ceil(resetAt - Date.now() / 1000)),
+  };
+}
+
+function resolvePexelsLocale(locale: string | undefined): string {
+  if (!locale) {
+    return "en-US";
+  }
+
+  const normalized = locale.replace("_", "-").toLowerCase();
+  const exact = SUPPORTED_LOCALES.find(
+    (candidate) => candidate.toLowerCase() === normalized
+  );
+  if (exact) {
+    return exact;
+  }
+
+  const language = normalized.split("-")[0];
+  return (
+    SUPPORTED_LOCALES.find((candidate) =>
+      candidate.toLowerCase().startsWith(`${language}-`)
+    ) ?? "en-US"
+  );
+}
+
+function resolveImageFilters(params: SearchImagesParams): AppliedFilters {
+  const filters: AppliedFilters = {};
+
+  const orientation = params.orientation
+    ? ORIENTATION_MAP[params.orientation]
+    : undefined;
+  if (orientation) filters.orientation = orientation;
+
+  const color = params.colors
+    ?.map((value) => COLOR_MAP[value])
+    .find((value) => value !== undefined);
+  if (color) filters.color = color;
+
+  if (params.min_width) filters.min_width = params.min_width;
+  if (params.min_height) filters.min_height = params.min_height;
+
+  return filters;
+}
+
+function resolveVideoFilters(params: SearchVideosParams): AppliedFilters {
+  const filters: AppliedFilters = {};
+  if (params.min_width) filters.min_width = params.min_width;
+  if (params.min_height) filters.min_height = params.min_height;
+  if (params.min_duration !== undefined) {
+    filters.min_duration = params.min_duration;
+  }
+  if (params.max_duration !== undefined) {
+    filters.max_duration = params.max_duration;
+  }
+  return filters;
+}
+
+function omitClientSideFilters(filters: AppliedFilters): AppliedFilters {
+  const { min_width: _width, min_height: _height, ...upstream } = filters;
+  return upstream;
+}
+
+type UpstreamPage<T> = {
+  items: T[];
+  /** Raw items in the response, before malformed ones were dropped. */
+  received: number;
+  totalHits: number;
+  rateLimit?: RateLimitInfo;
+};
+
+/** Pages over the upstream items that pass `matches`. */
+async function scanFiltered<T>(
+  page: number,
+  perPage: number,
+  fetchPage: (
+    upstreamPage: number,
+    upstreamPerPage: number
+  ) => Promise<UpstreamPage<T>>,
+  matches: (item: T) => boolean
+): Promise<{
+  results: T[];
+  hasMore: boolean;
+  totalHits: number;
+  rateLimit?: RateLimitInfo;
+}> {
+  const upstreamPerPage = Math.min(
+    perPage * OVERFETCH_FACTOR,
+    MAX_UPSTREAM_PER_PAGE
+  );
+  let totalHits = 0;
+  let rateLimit: RateLimitInfo | undefined;
+  const { results, hasMore } = await collectFilteredPage(
+    page,
+    perPage,
+    async (upstreamPage) => {
+      const fetched = await fetchPage(upstreamPage, upstreamPerPage);
+      totalHits = fetched.totalHits;
+      rateLimit = fetched.rateLimit;
+      return {
+        matches: fetched.items.filter(matches),
+        exhausted:
+          fetched.received < upstreamPerPage ||
+          upstreamPage * upstreamPerPage >= totalHits ||
+          upstreamPage >= MAX_SCANNED_PAGES,
+      };
+    }
+  );
+  return { results, hasMore, totalHits, rateLimit };
+}
+
+function buildPagination(
+  page: number,
+  perPage: number,
+  hasMore: boolean
+): PaginationInfo {
+  return {
+    page,
+    perPage,
+    hasMore,
+    nextPage: hasMore ? page + 1 : null,
+  };
+}
+
+function buildPhotoRenditions(photo: PexelsPhoto): MediaRendition[] {
+  // Pexels only reports the original size. The fixed-height and cropped
+  // variants have documented sizes; the rest are left unknown.
+  const scaledToHeight = (height: number) => ({
+    width: Math.round((photo.width * height) / photo.height),
+    height,
+  });
+  const knownSizes: Record<string, { width: number; height: number }> = {
+    tiny: { width: 280, height: 200 },
+    small: scaledToHeight(130),
+    medium: scaledToHeight(350),
+    portrait: { width: 800, height: 1200 },
+    landscape: { width: 1200, height: 627 },
+    original: { width: photo.width, height: photo.height },
+  };
+
+  return PHOTO_RENDITION_ORDER.flatMap((name) => {
+    const url = photo.src[name];
+    if (!url) return [];
+    return [
+      {
+        name,
+        url,
+        width: knownSizes[name]?.width ?? null,
+        height: knownSizes[name]?.height ?? null,
+        sizeBytes: null,
+      },
+    ];
+  });
+}
+
+function buildVideoRenditions(video: PexelsVideo): MediaRendition[] {
+  return video.video_files
+    .filter((file) => file.file_type === "video/mp4")
+    .sort((a, b) => (a.width ?? 0) - (b.width ?? 0))
+    .map((file) => ({
+      name: file.quality
+        ? `${file.quality}-${file.width ?? "auto"}`
+        : String(file.id),
+      url: file.link,
+      width: file.width,
+      height: file.height,
+      sizeBytes: null,
+    }));
+}
+
+function pickVideoFile(
+  video: PexelsVideo,
+  {
+    min_width,
+    min_height,
+  }: Pick<SearchVideosParams, "min_width" | "min_height">
+): PexelsVideo["video_files"][number] | null {
+  const candidates = video.video_files
+    .filter((file) => file.file_type === "video/mp4")
+    .filter(
+      (file) =>
+        (file.width ?? 0) >= (min_width ?? 0) &&
+        (file.height ?? 0) >= (min_height ?? 0)
+    )
+    .sort((a, b) => {
+      const rank = (quality: string | null) => {
+        const index = VIDEO_QUALITY_ORDER.indexOf(quality ?? "");
+        return index === -1 ? VIDEO_QUALITY_ORDER.length : index;
+      };
+      return (
+        rank(a.quality) - rank(b.quality) || (a.width ?? 0) - (b.width ?? 0)
+      );
+    });
+
+  return candidates[0] ?? null;
+}
+
+/**
+ * Pexels has no tag list; its page URLs carry a descriptive slug such as
+ * `/photo/brown-rocks-during-golden-hour-2014422/`, which makes a usable one.
+ */
+function tagsFromPageUrl(pageUrl: string, alt?: string | null): string[] {
+  let slug = "";
+  try {
+    const segments = new URL(pageUrl).pathname.split("/").filter(Boolean);
+    slug = segments[segments.length - 1] ?? "";
+  } catch {
+    slug = "";
+  }
+
+  const words = slug
+    .split("-")
+    .filter((word) => word.length > 2 && !/^\d+$/.test(word));
+  if (words.length > 0) {
+    return [...new Set(words)];
+  }
+
+  return alt ? [alt.trim()].filter((tag) => tag.length > 0) : [];
+}
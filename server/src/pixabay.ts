@@ -1,14 +1,38 @@
 import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
 import { serverConfig } from "./config.js";
 import {
-  SearchImagesInput,
+  AppliedFilters,
   ImageResult,
+  MediaRendition,
+  PaginationInfo,
   VideoResult,
   PixabayImageHit,
   PixabayVideoHit,
+  Ranking,
   pixabayImageHitSchema,
   pixabayVideoHitSchema,
 } from "./schemas.js";
+import {
+  ImageSearchResult,
+  MediaItemDetails,
+  MediaProvider,
+  RequestOptions,
+  SearchImagesParams,
+  SearchVideosParams,
+  VideoSearchResult,
+  collectFilteredPage,
+  matchesDuration,
+  sanitizeUrl,
+  toQueryParams,
+} from "./provider.js";
+import { MediaProxy, ProxiedMediaKind } from "./proxy.js";
+import { RankingFeatures, rankResults } from "./ranking.js";
+import { RateLimitInfo } from "./scheduler.js";
+import {
+  UpstreamClient,
+  UpstreamHttpError,
+  parseHeader,
+} from "./upstream.js";
 
 type PixabayImageSearchResponse = {
   total: number;
@@ -22,32 +46,6 @@ type PixabayVideoSearchResponse = {
   hits: unknown[];
 };
 
-type RateLimitInfo = {
-  limit?: number;
-  remaining?: number;
-  resetSeconds?: number;
-};
-
-export type SearchImagesParams = SearchImagesInput & {
-  locale: string;
-};
-
-export type SearchVideosParams = SearchImagesInput & {
-  locale: string;
-};
-
-export type PixabayImageSearchResult = {
-  results: ImageResult[];
-  totalHits: number;
-  rateLimit?: RateLimitInfo;
-};
-
-export type PixabayVideoSearchResult = {
-  results: VideoResult[];
-  totalHits: number;
-  rateLimit?: RateLimitInfo;
-};
-
 const RATE_LIMIT_HEADERS = {
   limit: "x-ratelimit-limit",
   remaining: "x-ratelimit-remaining",
@@ -83,6 +81,14 @@ const SUPPORTED_LANGS = new Set([
   "zh",
 ]);
 
+// Codes Pixabay knows under another name, or a close enough neighbour.
+const LANGUAGE_ALIASES: Record<string, string> = {
+  nb: "no",
+  nn: "no",
+  in: "id",
+  ms: "id",
+};
+
 const VIDEO_RENDITION_ORDER: Array<keyof PixabayVideoHit["videos"]> = [
   "medium",
   "large",
@@ -90,6 +96,16 @@ const VIDEO_RENDITION_ORDER: Array<keyof PixabayVideoHit["videos"]> = [
   "tiny",
 ];
 
+const LARGE_IMAGE_MAX_EDGE = 1280;
+
+// Proxy rendition name for a video's poster frame.
+const VIDEO_THUMBNAIL_NAME = "thumbnail";
+
+// Pixabay has no duration parameter and its size filter does not guarantee a
+// rendition that large, so filtered searches read larger upstream pages.
+const VIDEO_OVERFETCH_FACTOR = 4;
+const MAX_UPSTREAM_PER_PAGE = 200;
+
 const THUMBNAIL_RENDITION_ORDER: Array<keyof PixabayVideoHit["videos"]> = [
   "medium",
   "small",
@@ -97,40 +113,49 @@ const THUMBNAIL_RENDITION_ORDER: Array<keyof PixabayVideoHit["videos"]> = [
   "tiny",
 ];
 
-export class PixabayClient {
+export class PixabayClient implements MediaProvider {
+  readonly id = "pixabay" as const;
+  readonly displayName = "Pixabay";
+  readonly attribution = "Pixabay under the Pixabay License";
+  readonly supportsSafeSearch = true;
+  readonly license = {
+    name: "Pixabay Content License",
+    url: "https://pixabay.com/service/license-summary/",
+    summary:
+      "Free for commercial and non-commercial use without attribution. Do not sell unaltered copies, redistribute the content on other stock platforms, or imply endorsement by depicted people or brands.",
+  };
+
+  private readonly upstream = new UpstreamClient({
+    name: "Pixabay",
+    apiKeyEnvVar: "PIXABAY_API_KEY",
+    parseRateLimit: parsePixabayRateLimit,
+  });
+
+  /** With a proxy, CDN URLs in results are rewritten to point at it. */
+  constructor(private readonly proxy: MediaProxy | null = null) {}
+
   async searchImages(
     params: SearchImagesParams,
-    { signal }: { signal?: AbortSignal } = {}
-  ): Promise<PixabayImageSearchResult> {
+    { signal }: RequestOptions = {}
+  ): Promise<ImageSearchResult> {
     const lang = resolveLanguage(params.locale);
+    const perPage = params.per_page ?? serverConfig.defaultPerPage;
+    const page = resolvePage(params.page, perPage);
+    const filters = resolveImageFilters(params);
 
     const searchParams = new URLSearchParams({
       key: serverConfig.pixabayApiKey,
       q: params.query,
-      safesearch: String(params.safesearch ?? true),
-      per_page: String(params.per_page ?? serverConfig.defaultPerPage),
+      per_page: String(perPage),
+      page: String(page),
       lang,
-      image_type: "photo",
-      orientation: params.orientation ?? "all",
-    });
-
-    const url = `${serverConfig.pixabayBaseUrl}?${searchParams.toString()}`;
-
-    const response = await fetch(url, {
-      method: "GET",
-      headers: {
-        Accept: "application/json",
-      },
-      signal,
+      ...toQueryParams(omitClientSideFilters(filters)),
     });
 
-    const rateLimit = this.extractRateLimit(response.headers);
-
-    if (!response.ok) {
-      await this.throwForErrorResponse(response);
-    }
-
-    const json = (await response.json()) as PixabayImageSearchResponse;
+    const { json, rateLimit } = await this.upstream.getJson<PixabayImageSearchResponse>(
+      `${serverConfig.pixabayBaseUrl}?${searchParams.toString()}`,
+      { signal }
+    );
     const hits = Array.isArray(json.hits) ? json.hits : [];
 
     const parsedHits: PixabayImageHit[] = [];
@@ -141,154 +166,400 @@ export class PixabayClient {
       }
     }
 
-    const results = parsedHits.map<ImageResult>((hit) => ({
-      id: hit.id,
-      previewUrl: hit.previewURL,
-      pageUrl: hit.pageURL,
-      imageUrl: hit.webformatURL,
-      imageWidth: hit.imageWidth,
-      imageHeight: hit.imageHeight,
-      tags: normalizeTags(hit.tags),
-      photographer: {
-        name: hit.user,
-        profileUrl: buildContributorProfile(hit.user, hit.user_id),
-      },
-      likes: hit.likes,
-      downloads: hit.downloads,
-    }));
+    const { results, collapsed } = rankPage(
+      parsedHits.map((hit) => this.toImageResult(hit)),
+      params,
+      imageFeatures
+    );
+
+    const totalHits = json.totalHits ?? results.length;
 
     return {
       results,
-      totalHits: json.totalHits ?? results.length,
+      totalHits,
+      pagination: buildPagination(page, perPage, totalHits),
+      filters,
       rateLimit,
+      collapsed,
     };
   }
 
   async searchVideos(
     params: SearchVideosParams,
-    { signal }: { signal?: AbortSignal } = {}
-  ): Promise<PixabayVideoSearchResult> {
+    { signal }: RequestOptions = {}
+  ): Promise<VideoSearchResult> {
     const lang = resolveLanguage(params.locale);
+    const perPage = params.per_page ?? serverConfig.defaultPerPage;
+    const page = resolvePage(params.page, perPage);
+    const filters = resolveVideoFilters(params);
+    const needsClientFilter =
+      params.min_duration !== undefined ||
+      params.max_duration !== undefined ||
+      Boolean(params.min_width || params.min_height);
+
+    if (!needsClientFilter) {
+      const { hits, totalHits, rateLimit } = await this.fetchVideoHits(
+        params,
+        lang,
+        filters,
+        page,
+        perPage,
+        signal
+      );
+      const { results, collapsed } = rankPage(
+        this.toVideoResults(hits, params),
+        params,
+        videoFeatures
+      );
+      return {
+        results,
+        totalHits,
+        pagination: buildPagination(page, perPage, totalHits),
+        filters,
+        rateLimit,
+        collapsed,
+      };
+    }
+
+    const upstreamPerPage = Math.min(
+      perPage * VIDEO_OVERFETCH_FACTOR,
+      MAX_UPSTREAM_PER_PAGE
+    );
+    let totalHits = 0;
+    let rateLimit: RateLimitInfo | undefined;
+    const { results: pageHits, hasMore } = await collectFilteredPage(
+      page,
+      perPage,
+      async (upstreamPage) => {
+        const fetched = await this.fetchVideoHits(
+          params,
+          lang,
+          filters,
+          upstreamPage,
+          upstreamPerPage,
+          signal
+        );
+        totalHits = fetched.totalHits;
+        rateLimit = fetched.rateLimit;
+        const reachableHits = Math.min(
+          totalHits,
+          serverConfig.maxAccessibleHits
+        );
+        return {
+          matches: fetched.hits.filter(
+            (hit) =>
+              matchesDuration(hit.duration, params) &&
+              this.pickVideoRendition(hit, params) !== null
+          ),
+          exhausted:
+            fetched.received < upstreamPerPage ||
+            upstreamPage * upstreamPerPage >= reachableHits,
+        };
+      }
+    );
+
+    const { results, collapsed } = rankPage(
+      this.toVideoResults(pageHits, params),
+      params,
+      videoFeatures
+    );
+    return {
+      results,
+      totalHits,
+      pagination: {
+        page,
+        perPage,
+        hasMore,
+        nextPage: hasMore ? page + 1 : null,
+      },
+      filters,
+      rateLimit,
+      collapsed,
+    };
+  }
 
+  private async fetchVideoHits(
+    params: SearchVideosParams,
+    lang: string,
+    filters: AppliedFilters,
+    page: number,
+    perPage: number,
+    signal: AbortSignal | undefined
+  ): Promise<{
+    hits: PixabayVideoHit[];
+    /** Raw hits in the response, before malformed ones were dropped. */
+    received: number;
+    totalHits: number;
+    rateLimit?: RateLimitInfo;
+  }> {
     const searchParams = new URLSearchParams({
       key: serverConfig.pixabayApiKey,
       q: params.query,
-      safesearch: String(params.safesearch ?? true),
-      per_page: String(params.per_page ?? serverConfig.defaultPerPage),
+      per_page: String(perPage),
+      page: String(page),
       lang,
+      ...toQueryParams(omitClientSideFilters(filters)),
     });
 
-    const url = `${serverConfig.pixabayVideoBaseUrl}?${searchParams.toString()}`;
-
-    const response = await fetch(url, {
-      method: "GET",
-      headers: {
-        Accept: "application/json",
-      },
-      signal,
-    });
-
-    const rateLimit = this.extractRateLimit(response.headers);
-
-    if (!response.ok) {
-      await this.throwForErrorResponse(response);
-    }
-
-    const json = (await response.json()) as PixabayVideoSearchResponse;
-    const hits = Array.isArray(json.hits) ? json.hits : [];
+    const { json, rateLimit } = await this.upstream.getJson<PixabayVideoSearchResponse>(
+      `${serverConfig.pixabayVideoBaseUrl}?${searchParams.toString()}`,
+      { signal }
+    );
+    const rawHits = Array.isArray(json.hits) ? json.hits : [];
 
-    const parsedHits: PixabayVideoHit[] = [];
-    for (const rawHit of hits) {
+    const hits: PixabayVideoHit[] = [];
+    for (const rawHit of rawHits) {
       const parsed = pixabayVideoHitSchema.safeParse(rawHit);
       if (parsed.success) {
-        parsedHits.push(parsed.data);
+        hits.push(parsed.data);
       }
     }
 
-    const results: VideoResult[] = [];
-    for (const hit of parsedHits) {
-      const rendition = this.pickVideoRendition(hit);
-      if (!rendition) {
-        continue;
-      }
+    return {
+      hits,
+      received: rawHits.length,
+      totalHits: json.totalHits ?? hits.length,
+      rateLimit,
+    };
+  }
 
-      const videoUrl = sanitizeUrl(rendition.url);
-      if (!videoUrl) {
-        continue;
-      }
+  private toVideoResults(
+    hits: PixabayVideoHit[],
+    params: SearchVideosParams
+  ): VideoResult[] {
+    return hits
+      .map((hit) => this.toVideoResult(hit, params))
+      .filter((result): result is VideoResult => result !== null);
+  }
 
-      const previewImageUrl = this.findThumbnail(hit, rendition.thumbnail);
-
-      results.push({
-        id: hit.id,
-        pageUrl: hit.pageURL,
-        videoUrl,
-        previewImageUrl,
-        width: Number.isFinite(rendition.width) ? rendition.width : null,
-        height: Number.isFinite(rendition.height) ? rendition.height : null,
-        durationSeconds: hit.duration,
-        tags: normalizeTags(hit.tags),
-        creator: {
-          name: hit.user,
-          profileUrl: buildContributorProfile(hit.user, hit.user_id),
-        },
-        likes: typeof hit.likes === "number" ? hit.likes : null,
-        downloads: typeof hit.downloads === "number" ? hit.downloads : null,
-      });
+  async getImage(
+    id: number,
+    { signal }: RequestOptions = {}
+  ): Promise<MediaItemDetails<ImageResult> | null> {
+    const searchParams = new URLSearchParams({
+      key: serverConfig.pixabayApiKey,
+      id: String(id),
+    });
+    const hit = await this.fetchById(
+      `${serverConfig.pixabayBaseUrl}?${searchParams.toString()}`,
+      signal
+    );
+    const parsed = pixabayImageHitSchema.safeParse(hit);
+    if (!parsed.success) {
+      return null;
     }
 
     return {
-      results,
-      totalHits: json.totalHits ?? results.length,
-      rateLimit,
+      result: this.toImageResult(parsed.data),
+      stats: {
+        likes: parsed.data.likes,
+        downloads: parsed.data.downloads,
+        views: parsed.data.views ?? null,
+        comments: parsed.data.comments ?? null,
+      },
     };
   }
 
-  private extractRateLimit(headers: Headers): RateLimitInfo {
+  async getVideo(
+    id: number,
+    { signal }: RequestOptions = {}
+  ): Promise<MediaItemDetails<VideoResult> | null> {
+    const searchParams = new URLSearchParams({
+      key: serverConfig.pixabayApiKey,
+      id: String(id),
+    });
+    const hit = await this.fetchById(
+      `${serverConfig.pixabayVideoBaseUrl}?${searchParams.toString()}`,
+      signal
+    );
+    const parsed = pixabayVideoHitSchema.safeParse(hit);
+    const result = parsed.success ? this.toVideoResult(parsed.data, {}) : null;
+    if (!parsed.success || !result) {
+      return null;
+    }
+
     return {
-      limit: parseHeader(headers.get(RATE_LIMIT_HEADERS.limit)),
-      remaining: parseHeader(headers.get(RATE_LIMIT_HEADERS.remaining)),
-      resetSeconds: parseHeader(headers.get(RATE_LIMIT_HEADERS.reset)),
+      result,
+      stats: {
+        likes: parsed.data.likes ?? null,
+        downloads: parsed.data.downloads ?? null,
+        views: parsed.data.views ?? null,
+        comments: parsed.data.comments ?? null,
+      },
     };
   }
 
-  private async throwForErrorResponse(response: Response): Promise<never> {
-    const message = await this.safeReadError(response);
-    if (response.status === 401 || response.status === 403) {
-      throw new McpError(
-        ErrorCode.InternalError,
-        "Pixabay authentication failed. Verify PIXABAY_API_KEY."
+  /**
+   * Looks up the CDN URL behind a proxied rendition, used by the media proxy
+   * for URLs it has not seen since startup.
+   */
+  async resolveMediaUrl(
+    kind: ProxiedMediaKind,
+    id: number,
+    name: string,
+    { signal }: RequestOptions = {}
+  ): Promise<string | null> {
+    const searchParams = new URLSearchParams({
+      key: serverConfig.pixabayApiKey,
+      id: String(id),
+    });
+    const baseUrl =
+      kind === "image"
+        ? serverConfig.pixabayBaseUrl
+        : serverConfig.pixabayVideoBaseUrl;
+    const hit = await this.fetchById(
+      `${baseUrl}?${searchParams.toString()}`,
+      signal
+    );
+
+    if (kind === "image") {
+      const parsed = pixabayImageHitSchema.safeParse(hit);
+      if (!parsed.success) return null;
+      return (
+        buildImageRenditions(parsed.data).find(
+          (rendition) => rendition.name === name
+        )?.url ?? null
       );
     }
-    if (response.status === 429) {
-      throw new McpError(
-        ErrorCode.InternalError,
-        "Pixabay rate limit exceeded. Please wait a moment before trying again."
-      );
+
+    const parsed = pixabayVideoHitSchema.safeParse(hit);
+    if (!parsed.success) return null;
+    if (name === VIDEO_THUMBNAIL_NAME) {
+      return this.findThumbnail(parsed.data);
     }
-    throw new McpError(
-      ErrorCode.InternalError,
-      `Pixabay request failed (${response.status}): ${message}`
+    return (
+      buildVideoRenditions(parsed.data).find(
+        (rendition) => rendition.name === name
+      )?.url ?? null
     );
   }
 
-  private async safeReadError(response: Response): Promise<string> {
+  private proxyUrl(
+    kind: ProxiedMediaKind,
+    id: number,
+    name: string,
+    url: string
+  ): string {
+    return this.proxy ? this.proxy.register(kind, id, name, url) : url;
+  }
+
+  private proxyRenditions(
+    kind: ProxiedMediaKind,
+    id: number,
+    renditions: MediaRendition[]
+  ): MediaRendition[] {
+    return renditions.map((rendition) => ({
+      ...rendition,
+      url: this.proxyUrl(kind, id, rendition.name, rendition.url),
+    }));
+  }
+
+  private async fetchById(
+    url: string,
+    signal: AbortSignal | undefined
+  ): Promise<unknown> {
     try {
-      const text = await response.text();
-      return text.trim() || response.statusText;
-    } catch {
-      return response.statusText;
+      const { json } = await this.upstream.getJson<{ hits?: unknown[] }>(url, {
+        signal,
+      });
+      return Array.isArray(json.hits) ? json.hits[0] : undefined;
+    } catch (error) {
+      // Pixabay answers unknown ids with a 400 rather than an empty result.
+      if (error instanceof UpstreamHttpError && error.status === 400) {
+        return undefined;
+      }
+      throw error;
+    }
+  }
+
+  private toImageResult(hit: PixabayImageHit): ImageResult {
+    return {
+      id: hit.id,
+      source: this.id,
+      previewUrl: this.proxyUrl("image", hit.id, "preview", hit.previewURL),
+      pageUrl: hit.pageURL,
+      imageUrl: this.proxyUrl("image", hit.id, "webformat", hit.webformatURL),
+      imageWidth: hit.imageWidth,
+      imageHeight: hit.imageHeight,
+      tags: normalizeTags(hit.tags),
+      photographer: {
+        name: hit.user,
+        profileUrl: buildContributorProfile(hit.user, hit.user_id),
+      },
+      likes: hit.likes,
+      downloads: hit.downloads,
+      renditions: this.proxyRenditions(
+        "image",
+        hit.id,
+        buildImageRenditions(hit)
+      ),
+    };
+  }
+
+  private toVideoResult(
+    hit: PixabayVideoHit,
+    dimensions: Pick<SearchVideosParams, "min_width" | "min_height">
+  ): VideoResult | null {
+    const picked = this.pickVideoRendition(hit, dimensions);
+    if (!picked) {
+      return null;
     }
+
+    const { name, rendition } = picked;
+    const videoUrl = sanitizeUrl(rendition.url);
+    if (!videoUrl) {
+      return null;
+    }
+
+    const thumbnail = this.findThumbnail(hit, rendition.thumbnail);
+    return {
+      id: hit.id,
+      source: this.id,
+      pageUrl: hit.pageURL,
+      videoUrl: this.proxyUrl("video", hit.id, name, videoUrl),
+      previewImageUrl: thumbnail
+        ? this.proxyUrl("video", hit.id, VIDEO_THUMBNAIL_NAME, thumbnail)
+        : null,
+      width: Number.isFinite(rendition.width) ? rendition.width : null,
+      height: Number.isFinite(rendition.height) ? rendition.height : null,
+      durationSeconds: hit.duration,
+      tags: normalizeTags(hit.tags),
+      creator: {
+        name: hit.user,
+        profileUrl: buildContributorProfile(hit.user, hit.user_id),
+      },
+      likes: typeof hit.likes === "number" ? hit.likes : null,
+      downloads: typeof hit.downloads === "number" ? hit.downloads : null,
+      renditions: this.proxyRenditions(
+        "video",
+        hit.id,
+        buildVideoRenditions(hit)
+      ),
+    };
   }
 
   private pickVideoRendition(
-    hit: PixabayVideoHit
-  ): PixabayVideoHit["videos"][keyof PixabayVideoHit["videos"]] | null {
+    hit: PixabayVideoHit,
+    {
+      min_width,
+      min_height,
+    }: Pick<SearchVideosParams, "min_width" | "min_height">
+  ): {
+    name: keyof PixabayVideoHit["videos"];
+    rendition: NonNullable<
+      PixabayVideoHit["videos"][keyof PixabayVideoHit["videos"]]
+    >;
+  } | null {
+    const minWidth = min_width ?? 0;
+    const minHeight = min_height ?? 0;
     for (const key of VIDEO_RENDITION_ORDER) {
       const rendition = hit.videos[key];
       if (!rendition) continue;
+      if (rendition.width < minWidth || rendition.height < minHeight) {
+        continue;
+      }
       if (sanitizeUrl(rendition.url)) {
-        return rendition;
+        return { name: key, rendition };
       }
     }
     return null;
@@ -316,23 +587,211 @@ export class PixabayClient {
   }
 }
 
-function parseHeader(value: string | null): number | undefined {
-  if (!value) return undefined;
-  const parsed = Number(value);
-  return Number.isFinite(parsed) ? parsed : undefined;
+function buildImageRenditions(hit: PixabayImageHit): MediaRendition[] {
+  const renditions: MediaRendition[] = [
+    {
+      name: "preview",
+      url: hit.previewURL,
+      width: hit.previewWidth ?? null,
+      height: hit.previewHeight ?? null,
+      sizeBytes: null,
+    },
+    {
+      name: "webformat",
+      url: hit.webformatURL,
+      width: hit.webformatWidth ?? null,
+      height: hit.webformatHeight ?? null,
+      sizeBytes: null,
+    },
+  ];
+
+  const largeUrl = sanitizeUrl(hit.largeImageURL);
+  if (largeUrl) {
+    // Pixabay scales large images to 1280px on the longest side.
+    const scale = Math.min(
+      1,
+      LARGE_IMAGE_MAX_EDGE / Math.max(hit.imageWidth, hit.imageHeight)
+    );
+    renditions.push({
+      name: "large",
+      url: largeUrl,
+      width: Math.round(hit.imageWidth * scale),
+      height: Math.round(hit.imageHeight * scale),
+      sizeBytes: scale === 1 ? (hit.imageSize ?? null) : null,
+    });
+  }
+
+  return renditions;
 }
 
-function resolveLanguage(locale: string | undefined): string {
-  if (!locale) {
-    return serverConfig.defaultLocale;
+function buildVideoRenditions(hit: PixabayVideoHit): MediaRendition[] {
+  const renditions: MediaRendition[] = [];
+  for (const name of ["tiny", "small", "medium", "large"] as const) {
+    const rendition = hit.videos[name];
+    const url = sanitizeUrl(rendition?.url);
+    if (!rendition || !url) continue;
+    renditions.push({
+      name,
+      url,
+      width: rendition.width || null,
+      height: rendition.height || null,
+      sizeBytes: rendition.size || null,
+    });
   }
+  return renditions;
+}
 
-  const candidate = locale.split(/[-_]/)[0]?.toLowerCase();
-  if (candidate && SUPPORTED_LANGS.has(candidate)) {
-    return candidate;
+function parsePixabayRateLimit(headers: Headers): RateLimitInfo {
+  return {
+    limit: parseHeader(headers.get(RATE_LIMIT_HEADERS.limit)),
+    remaining: parseHeader(headers.get(RATE_LIMIT_HEADERS.remaining)),
+    resetSeconds: parseHeader(headers.get(RATE_LIMIT_HEADERS.reset)),
+  };
+}
+
+function resolveImageFilters(params: SearchImagesParams): AppliedFilters {
+  const filters: AppliedFilters = {
+    image_type: params.image_type ?? "photo",
+    orientation: params.orientation ?? "all",
+    safesearch: params.safesearch ?? true,
+  };
+
+  if (params.category) filters.category = params.category;
+  if (params.colors?.length) filters.colors = [...new Set(params.colors)];
+  if (params.min_width) filters.min_width = params.min_width;
+  if (params.min_height) filters.min_height = params.min_height;
+  if (params.editors_choice) filters.editors_choice = true;
+  if (params.order) filters.order = params.order;
+  if (params.ranking) filters.ranking = params.ranking;
+
+  return filters;
+}
+
+function resolveVideoFilters(params: SearchVideosParams): AppliedFilters {
+  if (
+    params.min_duration !== undefined &&
+    params.max_duration !== undefined &&
+    params.min_duration > params.max_duration
+  ) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      "min_duration must be less than or equal to max_duration."
+    );
   }
 
-  return serverConfig.defaultLocale;
+  const filters: AppliedFilters = {
+    video_type: params.video_type ?? "all",
+    safesearch: params.safesearch ?? true,
+  };
+
+  if (params.category) filters.category = params.category;
+  if (params.min_width) filters.min_width = params.min_width;
+  if (params.min_height) filters.min_height = params.min_height;
+  if (params.min_duration !== undefined) {
+    filters.min_duration = params.min_duration;
+  }
+  if (params.max_duration !== undefined) {
+    filters.max_duration = params.max_duration;
+  }
+  if (params.editors_choice) filters.editors_choice = true;
+  if (params.order) filters.order = params.order;
+  if (params.ranking) filters.ranking = params.ranking;
+
+  return filters;
+}
+
+function omitClientSideFilters(filters: AppliedFilters): AppliedFilters {
+  const {
+    min_duration: _min,
+    max_duration: _max,
+    ranking: _ranking,
+    ...upstream
+  } = filters;
+  return upstream;
+}
+
+/**
+ * Reranks a page when the caller picked a `ranking`; otherwise Pixabay's own
+ * order, which honours `order`, is kept.
+ */
+function rankPage<T>(
+  results: T[],
+  { query, ranking }: { query: string; ranking?: Ranking },
+  featuresOf: (item: T) => RankingFeatures
+): { results: T[]; collapsed: number } {
+  if (!ranking) {
+    return { results, collapsed: 0 };
+  }
+  return rankResults(results, query, featuresOf, {
+    ranking,
+    maxPerContributor: serverConfig.ranking.maxPerContributor,
+  });
+}
+
+function imageFeatures(result: ImageResult): RankingFeatures {
+  return {
+    tags: result.tags,
+    contributor: result.photographer.profileUrl,
+    width: result.imageWidth,
+    height: result.imageHeight,
+    likes: result.likes,
+    downloads: result.downloads,
+  };
+}
+
+function videoFeatures(result: VideoResult): RankingFeatures {
+  return {
+    tags: result.tags,
+    contributor: result.creator.profileUrl,
+    width: result.width,
+    height: result.height,
+    likes: result.likes,
+    downloads: result.downloads,
+  };
+}
+
+function resolvePage(page: number | undefined, perPage: number): number {
+  const resolved = page ?? 1;
+  if ((resolved - 1) * perPage >= serverConfig.maxAccessibleHits) {
+    const lastPage = Math.ceil(serverConfig.maxAccessibleHits / perPage);
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      `Pixabay only exposes the first ${serverConfig.maxAccessibleHits} hits per query; with per_page ${perPage} the last page is ${lastPage}.`
+    );
+  }
+  return resolved;
+}
+
+function buildPagination(
+  page: number,
+  perPage: number,
+  totalHits: number
+): PaginationInfo {
+  // Pixabay caps totalHits at the accessible window, but guard against
+  // responses that report the raw total.
+  const reachableHits = Math.min(totalHits, serverConfig.maxAccessibleHits);
+  const hasMore = page * perPage < reachableHits;
+  return {
+    page,
+    perPage,
+    hasMore,
+    nextPage: hasMore ? page + 1 : null,
+  };
+}
+
+/**
+ * Maps a host locale such as "pt-BR" or "nb-NO" onto a Pixabay `lang`,
+ * falling back to the default locale when Pixabay has no such language.
+ */
+export function resolveLanguage(locale: string | undefined): string {
+  return (locale && supportedLanguageOf(locale)) ?? serverConfig.defaultLocale;
+}
+
+/** The Pixabay language for a locale, or null if it is not supported. */
+export function supportedLanguageOf(locale: string): string | null {
+  const primary = locale.trim().split(/[-_]/)[0]?.toLowerCase() ?? "";
+  const candidate = LANGUAGE_ALIASES[primary] ?? primary;
+  return SUPPORTED_LANGS.has(candidate) ? candidate : null;
 }
 
 function normalizeTags(tags: string): string[] {
@@ -342,18 +801,6 @@ function normalizeTags(tags: string): string[] {
     .filter((tag) => tag.length > 0);
 }
 
-function sanitizeUrl(value: string | undefined | null): string | null {
-  if (!value) return null;
-  const trimmed = value.trim();
-  if (!trimmed) {
-    return null;
-  }
-  if (!/^https?:\/\//i.test(trimmed)) {
-    return null;
-  }
-  return trimmed;
-}
-
 function buildContributorProfile(username: string, userId: number): string {
   return `https://pixabay.com/users/${encodeURIComponent(username)}-${userId}/`;
 }
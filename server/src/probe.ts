@@ -0,0 +1,248 @@
+import { promises as fs } from "node:fs";
+
+export type ImageProbe = {
+  width: number;
+  height: number;
+};
+
+export type VideoProbe = {
+  durationSeconds: number;
+  width: number | null;
+  height: number | null;
+};
+
+const IMAGE_HEADER_BYTES = 64 * 1024;
+const MAX_MOOV_BYTES = 16 * 1024 * 1024;
+
+/**
+ * Reads pixel dimensions from the header of a PNG, GIF, JPEG or WebP file
+ * without decoding it. Returns null for unknown or truncated files.
+ */
+export async function probeImage(path: string): Promise<ImageProbe | null> {
+  const header = await readRange(path, 0, IMAGE_HEADER_BYTES);
+  return (
+    probePng(header) ??
+    probeGif(header) ??
+    probeJpeg(header) ??
+    probeWebp(header)
+  );
+}
+
+/**
+ * Reads duration and frame size from the `moov` box of an MP4/MOV container.
+ */
+export async function probeVideo(path: string): Promise<VideoProbe | null> {
+  const handle = await fs.open(path, "r");
+  try {
+    const { size } = await handle.stat();
+    const moov = await findTopLevelBox(handle, size, "moov");
+    if (!moov) {
+      return null;
+    }
+
+    const mvhd = findChildBox(moov, "mvhd");
+    if (!mvhd) {
+      return null;
+    }
+    const durationSeconds = readMovieDuration(mvhd);
+    if (durationSeconds === null) {
+      return null;
+    }
+
+    let width: number | null = null;
+    let height: number | null = null;
+    for (const trak of findChildBoxes(moov, "trak")) {
+      const tkhd = findChildBox(trak, "tkhd");
+      if (!tkhd || tkhd.length < 8) continue;
+      // Track width and height are 16.16 fixed point values ending the box.
+      const trackWidth = tkhd.readUInt32BE(tkhd.length - 8) / 65536;
+      const trackHeight = tkhd.readUInt32BE(tkhd.length - 4) / 65536;
+      if (trackWidth > 0 && trackHeight > 0) {
+        width = Math.round(trackWidth);
+        height = Math.round(trackHeight);
+        break;
+      }
+    }
+
+    return { durationSeconds: Math.round(durationSeconds), width, height };
+  } finally {
+    await handle.close();
+  }
+}
+
+async function readRange(
+  path: string,
+  position: number,
+  length: number
+): Promise<Buffer> {
+  const handle = await fs.open(path, "r");
+  try {
+    const buffer = Buffer.alloc(length);
+    const { bytesRead } = await handle.read(buffer, 0, length, position);
+    return buffer.subarray(0, bytesRead);
+  } finally {
+    await handle.close();
+  }
+}
+
+function probePng(buffer: Buffer): ImageProbe | null {
+  if (
+    buffer.length < 24 ||
+    buffer.readUInt32BE(0) !== 0x89504e47 ||
+    buffer.toString("ascii", 12, 16) !== "IHDR"
+  ) {
+    return null;
+  }
+  return { width: buffer.readUInt32BE(16), height: buffer.readUInt32BE(20) };
+}
+
+function probeGif(buffer: Buffer): ImageProbe | null {
+  if (buffer.length < 10 || buffer.toString("ascii", 0, 3) !== "GIF") {
+    return null;
+  }
+  return { width: buffer.readUInt16LE(6), height: buffer.readUInt16LE(8) };
+}
+
+function probeJpeg(buffer: Buffer): ImageProbe | null {
+  if (buffer.length < 4 || buffer[0] !== 0xff || buffer[1] !== 0xd8) {
+    return null;
+  }
+
+  let offset = 2;
+  while (offset + 9 < buffer.length) {
+    if (buffer[offset] !== 0xff) {
+      offset += 1;
+      continue;
+    }
+    const marker = buffer[offset + 1]!;
+    const segmentLength = buffer.readUInt16BE(offset + 2);
+    const isStartOfFrame =
+      marker >= 0xc0 &&
+      marker <= 0xcf &&
+      marker !== 0xc4 &&
+      marker !== 0xc8 &&
+      marker !== 0xcc;
+    if (isStartOfFrame) {
+      return {
+        height: buffer.readUInt16BE(offset + 5),
+        width: buffer.readUInt16BE(offset + 7),
+      };
+    }
+    offset += 2 + segmentLength;
+  }
+  return null;
+}
+
+function probeWebp(buffer: Buffer): ImageProbe | null {
+  if (
+    buffer.length < 30 ||
+    buffer.toString("ascii", 0, 4) !== "RIFF" ||
+    buffer.toString("ascii", 8, 12) !== "WEBP"
+  ) {
+    return null;
+  }
+
+  const chunk = buffer.toString("ascii", 12, 16);
+  if (chunk === "VP8 ") {
+    return {
+      width: buffer.readUInt16LE(26) & 0x3fff,
+      height: buffer.readUInt16LE(28) & 0x3fff,
+    };
+  }
+  if (chunk === "VP8L") {
+    const bits = buffer.readUInt32LE(21);
+    return {
+      width: (bits & 0x3fff) + 1,
+      height: ((bits >> 14) & 0x3fff) + 1,
+    };
+  }
+  if (chunk === "VP8X") {
+    return {
+      width: buffer.readUIntLE(24, 3) + 1,
+      height: buffer.readUIntLE(27, 3) + 1,
+    };
+  }
+  return null;
+}
+
+async function findTopLevelBox(
+  handle: fs.FileHandle,
+  fileSize: number,
+  type: string
+): Promise<Buffer | null> {
+  let offset = 0;
+  const header = Buffer.alloc(16);
+  while (offset + 8 <= fileSize) {
+    const { bytesRead } = await handle.read(header, 0, 16, offset);
+    if (bytesRead < 8) {
+      return null;
+    }
+
+    let boxSize = header.readUInt32BE(0);
+    let headerSize = 8;
+    if (boxSize === 1 && bytesRead >= 16) {
+      boxSize = Number(header.readBigUInt64BE(8));
+      headerSize = 16;
+    } else if (boxSize === 0) {
+      boxSize = fileSize - offset;
+    }
+    if (boxSize < headerSize) {
+      return null;
+    }
+
+    if (header.toString("ascii", 4, 8) === type) {
+      const bodySize = boxSize - headerSize;
+      if (bodySize > MAX_MOOV_BYTES) {
+        return null;
+      }
+      const body = Buffer.alloc(bodySize);
+      await handle.read(body, 0, bodySize, offset + headerSize);
+      return body;
+    }
+
+    offset += boxSize;
+  }
+  return null;
+}
+
+function findChildBoxes(parent: Buffer, type: string): Buffer[] {
+  const matches: Buffer[] = [];
+  let offset = 0;
+  while (offset + 8 <= parent.length) {
+    let boxSize = parent.readUInt32BE(offset);
+    let headerSize = 8;
+    if (boxSize === 1 && offset + 16 <= parent.length) {
+      boxSize = Number(parent.readBigUInt64BE(offset + 8));
+      headerSize = 16;
+    } else if (boxSize === 0) {
+      boxSize = parent.length - offset;
+    }
+    if (boxSize < headerSize || offset + boxSize > parent.length) {
+      break;
+    }
+    if (parent.toString("ascii", offset + 4, offset + 8) === type) {
+      matches.push(parent.subarray(offset + headerSize, offset + boxSize));
+    }
+    offset += boxSize;
+  }
+  return matches;
+}
+
+function findChildBox(parent: Buffer, type: string): Buffer | null {
+  return findChildBoxes(parent, type)[0] ?? null;
+}
+
+function readMovieDuration(mvhd: Buffer): number | null {
+  const version = mvhd[0];
+  if (version === 1 && mvhd.length >= 32) {
+    const timescale = mvhd.readUInt32BE(20);
+    const duration = Number(mvhd.readBigUInt64BE(24));
+    return timescale > 0 ? duration / timescale : null;
+  }
+  if (mvhd.length >= 20) {
+    const timescale = mvhd.readUInt32BE(12);
+    const duration = mvhd.readUInt32BE(16);
+    return timescale > 0 ? duration / timescale : null;
+  }
+  return null;
+}
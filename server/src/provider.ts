@@ -0,0 +1,151 @@
+import {
+  AppliedFilters,
+  ImageResult,
+  MediaLicense,
+  MediaSource,
+  MediaStats,
+  PaginationInfo,
+  SearchImagesInput,
+  SearchVideosInput,
+  VideoResult,
+} from "./schemas.js";
+import { RateLimitInfo } from "./scheduler.js";
+
+export type SearchImagesParams = Omit<SearchImagesInput, "source"> & {
+  locale: string;
+};
+
+export type SearchVideosParams = Omit<SearchVideosInput, "source"> & {
+  locale: string;
+};
+
+export type RequestOptions = {
+  signal?: AbortSignal;
+};
+
+export type ImageSearchResult = {
+  results: ImageResult[];
+  totalHits: number;
+  pagination: PaginationInfo;
+  filters: AppliedFilters;
+  rateLimit?: RateLimitInfo;
+  /** Near-duplicates dropped from this page by reranking. */
+  collapsed?: number;
+};
+
+export type VideoSearchResult = {
+  results: VideoResult[];
+  totalHits: number;
+  pagination: PaginationInfo;
+  filters: AppliedFilters;
+  rateLimit?: RateLimitInfo;
+  /** Near-duplicates dropped from this page by reranking. */
+  collapsed?: number;
+};
+
+export type MediaItemDetails<T> = {
+  result: T;
+  stats: MediaStats;
+};
+
+/**
+ * A stock media backend. Providers map their own response shapes onto
+ * `ImageResult`/`VideoResult` so tools and the widget stay provider-agnostic.
+ */
+export interface MediaProvider {
+  readonly id: MediaSource;
+  readonly displayName: string;
+  /** Credit fragment, e.g. "Pixabay under the Pixabay License". */
+  readonly attribution: string;
+  readonly license: MediaLicense;
+  /** Whether the source can leave out explicit content on request. */
+  readonly supportsSafeSearch: boolean;
+
+  searchImages(
+    params: SearchImagesParams,
+    options?: RequestOptions
+  ): Promise<ImageSearchResult>;
+  searchVideos(
+    params: SearchVideosParams,
+    options?: RequestOptions
+  ): Promise<VideoSearchResult>;
+  getImage(
+    id: number,
+    options?: RequestOptions
+  ): Promise<MediaItemDetails<ImageResult> | null>;
+  getVideo(
+    id: number,
+    options?: RequestOptions
+  ): Promise<MediaItemDetails<VideoResult> | null>;
+}
+
+export function sanitizeUrl(value: string | undefined | null): string | null {
+  if (!value) return null;
+  const trimmed = value.trim();
+  if (!trimmed) {
+    return null;
+  }
+  if (!/^https?:\/\//i.test(trimmed)) {
+    return null;
+  }
+  return trimmed;
+}
+
+export function matchesDuration(
+  durationSeconds: number,
+  {
+    min_duration,
+    max_duration,
+  }: Pick<SearchVideosInput, "min_duration" | "max_duration">
+): boolean {
+  if (min_duration !== undefined && durationSeconds < min_duration) {
+    return false;
+  }
+  if (max_duration !== undefined && durationSeconds > max_duration) {
+    return false;
+  }
+  return true;
+}
+
+export function toQueryParams(
+  filters: AppliedFilters
+): Record<string, string> {
+  const query: Record<string, string> = {};
+  for (const [key, value] of Object.entries(filters)) {
+    query[key] = Array.isArray(value) ? value.join(",") : String(value);
+  }
+  return query;
+}
+
+/** The hits from one upstream page that passed a client-side filter. */
+export type FilteredScan<T> = {
+  matches: T[];
+  /** True once no further upstream page exists or may be read. */
+  exhausted: boolean;
+};
+
+/**
+ * Pages over the hits that pass a filter the upstream API cannot apply.
+ * Upstream pages are read from the start until the requested page is full
+ * and one more match is known, so page N always holds matches
+ * (N-1)*perPage+1 to N*perPage and no match falls between two pages.
+ */
+export async function collectFilteredPage<T>(
+  page: number,
+  perPage: number,
+  scan: (upstreamPage: number) => Promise<FilteredScan<T>>
+): Promise<{ results: T[]; hasMore: boolean }> {
+  const end = page * perPage;
+  const matches: T[] = [];
+  for (let upstreamPage = 1; matches.length <= end; upstreamPage += 1) {
+    const { matches: found, exhausted } = await scan(upstreamPage);
+    matches.push(...found);
+    if (exhausted) {
+      break;
+    }
+  }
+  return {
+    results: matches.slice(end - perPage, end),
+    hasMore: matches.length > end,
+  };
+}
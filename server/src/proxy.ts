@@ -0,0 +1,318 @@
+import { createWriteStream, promises as fs } from "node:fs";
+import { extname, join, resolve } from "node:path";
+import { Readable } from "node:stream";
+import { pipeline } from "node:stream/promises";
+import type { ReadableStream as WebReadableStream } from "node:stream/web";
+import type { Response as ExpressResponse } from "express";
+import { serverConfig } from "./config.js";
+import { logger, redactUrl } from "./logger.js";
+import { fetchWithTimeout } from "./resilience.js";
+import { signPath } from "./signing.js";
+
+export type ProxiedMediaKind = "image" | "video";
+
+export type MediaUrlResolver = (
+  kind: ProxiedMediaKind,
+  id: number,
+  name: string,
+  signal?: AbortSignal
+) => Promise<string | null>;
+
+export type MediaProxyOptions = {
+  directory: string;
+  maxBytes: number;
+};
+
+type CachedFile = {
+  path: string;
+  size: number;
+  lastAccess: number;
+};
+
+type Download = {
+  promise: Promise<CachedFile | null>;
+  controller: AbortController;
+  waiters: number;
+};
+
+export const MEDIA_PROXY_ROUTE = "/media";
+
+// Upstream URLs remembered for registered renditions; older ones are looked
+// up again through the resolver.
+const MAX_KNOWN_URLS = 10_000;
+
+const CONTENT_TYPE_EXTENSIONS: Record<string, string> = {
+  "image/jpeg": ".jpg",
+  "image/png": ".png",
+  "image/gif": ".gif",
+  "image/webp": ".webp",
+  "image/svg+xml": ".svg",
+  "video/mp4": ".mp4",
+  "video/webm": ".webm",
+};
+
+/**
+ * Serves upstream media from this server instead of hotlinking the stock
+ * CDN. Files are downloaded on first request into a size-bounded disk cache
+ * and evicted least-recently-used first; Express' `sendFile` then handles
+ * conditional and Range requests so videos can seek.
+ */
+export class MediaProxy {
+  private readonly directory: string;
+  private readonly knownUrls = new Map<string, string>();
+  private readonly downloads = new Map<string, Download>();
+  private files: Map<string, CachedFile> | null = null;
+  private loading: Promise<Map<string, CachedFile>> | null = null;
+  private totalBytes = 0;
+  private resolver: MediaUrlResolver | null = null;
+
+  constructor(private readonly options: MediaProxyOptions) {
+    this.directory = resolve(options.directory);
+  }
+
+  /**
+   * Sets the lookup used for signed URLs that were not registered in this
+   * process, such as those in search results cached on disk.
+   */
+  setResolver(resolver: MediaUrlResolver) {
+    this.resolver = resolver;
+  }
+
+  /**
+   * Records where a rendition lives upstream and returns the signed proxy
+   * URL that should be handed to clients instead.
+   */
+  register(
+    kind: ProxiedMediaKind,
+    id: number,
+    name: string,
+    upstreamUrl: string
+  ): string {
+    const key = cacheKey(kind, id, name);
+    // Re-inserting keeps recently registered URLs at the end of the map.
+    this.knownUrls.delete(key);
+    this.knownUrls.set(key, upstreamUrl);
+    if (this.knownUrls.size > MAX_KNOWN_URLS) {
+      const oldest = this.knownUrls.keys().next().value as string;
+      this.knownUrls.delete(oldest);
+    }
+    const base = serverConfig.publicBaseUrl.replace(/\/+$/, "");
+    return `${base}${signPath(mediaProxyPath(kind, id, name))}`;
+  }
+
+  async serve(
+    kind: ProxiedMediaKind,
+    id: number,
+    name: string,
+    res: ExpressResponse,
+    { download = false, signal }: { download?: boolean; signal?: AbortSignal }
+  ): Promise<void> {
+    const key = cacheKey(kind, id, name);
+    const files = await this.loadIndex();
+
+    let file = files.get(key);
+    if (file) {
+      file.lastAccess = Date.now();
+      // Persist recency in the mtime so eviction order survives restarts.
+      const now = new Date(file.lastAccess);
+      fs.utimes(file.path, now, now).catch(() => undefined);
+    } else {
+      let pending = this.downloads.get(key);
+      if (!pending) {
+        // The download has its own controller because other requests for the
+        // same file may join it; it is only aborted once all of them leave.
+        const controller = new AbortController();
+        const promise = this.fetchToCache(
+          kind,
+          id,
+          name,
+          controller.signal
+        ).finally(() => {
+          this.downloads.delete(key);
+        });
+        pending = { promise, controller, waiters: 0 };
+        this.downloads.set(key, pending);
+      }
+      file = (await waitFor(pending, signal)) ?? undefined;
+    }
+
+    if (!file) {
+      res.status(404).json({ error: "Not Found" });
+      return;
+    }
+
+    const headers: Record<string, string> = {};
+    if (download) {
+      headers["Content-Disposition"] =
+        `attachment; filename="${kind}-${id}-${name}${extname(file.path)}"`;
+    }
+    res.sendFile(file.path, { maxAge: "1d", headers });
+  }
+
+  private async fetchToCache(
+    kind: ProxiedMediaKind,
+    id: number,
+    name: string,
+    signal?: AbortSignal
+  ): Promise<CachedFile | null> {
+    const key = cacheKey(kind, id, name);
+    const upstreamUrl =
+      this.knownUrls.get(key) ??
+      (await this.resolver?.(kind, id, name, signal)) ??
+      null;
+    if (!upstreamUrl) {
+      return null;
+    }
+
+    const path = await fetchWithTimeout(
+      upstreamUrl,
+      { method: "GET" },
+      serverConfig.upstream.timeoutMs,
+      async (response) => {
+        if (!response.ok || !response.body) {
+          logger.warn("Media proxy fetch failed", {
+            key,
+            url: redactUrl(upstreamUrl),
+            status: response.status,
+          });
+          return null;
+        }
+
+        const contentType =
+          response.headers.get("content-type")?.split(";")[0]?.trim() ?? "";
+        const extension =
+          CONTENT_TYPE_EXTENSIONS[contentType] ??
+          (extname(new URL(upstreamUrl).pathname) || ".bin");
+        const path = join(this.directory, `${key}${extension}`);
+        const tempPath = `${path}.${process.pid}.tmp`;
+
+        await fs.mkdir(this.directory, { recursive: true });
+        try {
+          await pipeline(
+            Readable.fromWeb(response.body as WebReadableStream<Uint8Array>),
+            createWriteStream(tempPath)
+          );
+          await fs.rename(tempPath, path);
+        } catch (error) {
+          await fs.rm(tempPath, { force: true });
+          throw error;
+        }
+        return path;
+      },
+      signal
+    );
+    if (!path) {
+      return null;
+    }
+
+    const { size } = await fs.stat(path);
+    const file: CachedFile = { path, size, lastAccess: Date.now() };
+    this.files!.set(key, file);
+    this.totalBytes += size;
+    await this.evict(key);
+    return file;
+  }
+
+  /** Drops least recently used files until the cache fits its budget. */
+  private async evict(keep: string) {
+    const files = this.files!;
+    if (this.totalBytes <= this.options.maxBytes) {
+      return;
+    }
+
+    const candidates = [...files.entries()]
+      .filter(([key]) => key !== keep)
+      .sort(([, a], [, b]) => a.lastAccess - b.lastAccess);
+    for (const [key, file] of candidates) {
+      if (this.totalBytes <= this.options.maxBytes) break;
+      files.delete(key);
+      this.totalBytes -= file.size;
+      await fs.rm(file.path, { force: true });
+    }
+  }
+
+  private loadIndex(): Promise<Map<string, CachedFile>> {
+    this.loading ??= this.scanDirectory().catch((error) => {
+      // Let the next request scan again instead of failing until restart.
+      this.loading = null;
+      this.totalBytes = 0;
+      throw error;
+    });
+    return this.loading;
+  }
+
+  private async scanDirectory(): Promise<Map<string, CachedFile>> {
+    const files = new Map<string, CachedFile>();
+    let names: string[] = [];
+    try {
+      names = await fs.readdir(this.directory);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+        logger.warn("Failed to read media proxy cache", { error });
+      }
+    }
+
+    for (const name of names) {
+      const path = join(this.directory, name);
+      if (name.endsWith(".tmp")) {
+        await fs.rm(path, { force: true });
+        continue;
+      }
+      const stats = await fs.stat(path);
+      const key = name.slice(0, name.length - extname(name).length);
+      files.set(key, { path, size: stats.size, lastAccess: stats.mtimeMs });
+      this.totalBytes += stats.size;
+    }
+
+    this.files = files;
+    return files;
+  }
+}
+
+/** The route path for a rendition; its signature covers exactly this. */
+export function mediaProxyPath(
+  kind: ProxiedMediaKind,
+  id: number,
+  name: string
+): string {
+  return `${MEDIA_PROXY_ROUTE}/${kind}/${id}/${encodeURIComponent(name)}`;
+}
+
+/** Waits for a shared download until it settles or `signal` aborts. */
+async function waitFor(
+  download: Download,
+  signal: AbortSignal | undefined
+): Promise<CachedFile | null> {
+  download.waiters += 1;
+  if (!signal) {
+    return download.promise;
+  }
+
+  let onAbort: (() => void) | undefined;
+  const aborted = new Promise<never>((_, reject) => {
+    onAbort = () => {
+      download.waiters -= 1;
+      if (download.waiters === 0) {
+        download.controller.abort(signal.reason);
+      }
+      reject(signal.reason);
+    };
+    if (signal.aborted) {
+      onAbort();
+    } else {
+      signal.addEventListener("abort", onAbort, { once: true });
+    }
+  });
+
+  try {
+    return await Promise.race([download.promise, aborted]);
+  } finally {
+    if (onAbort) {
+      signal.removeEventListener("abort", onAbort);
+    }
+  }
+}
+
+function cacheKey(kind: ProxiedMediaKind, id: number, name: string): string {
+  return `${kind}-${id}-${name}`;
+}
@@ -0,0 +1,298 @@
+import {
+  QueryHints,
+  QueryRewrite,
+  SearchImagesInput,
+  SearchVideosInput,
+  categoryValues,
+  colorValues,
+} from "./schemas.js";
+
+export type QueryCandidate = {
+  query: string;
+  hints: QueryHints;
+};
+
+/** Keyword queries to try in order, from most to least specific. */
+export type QueryPlan = {
+  original: string;
+  candidates: QueryCandidate[];
+};
+
+// Pixabay rejects `q` values longer than this.
+const MAX_QUERY_LENGTH = 100;
+
+const STOPWORDS = wordSet(`
+  a an the of on in at to for from by with without and or but into onto over
+  under near during while about as is are was be being that this these those
+  its it their his her some any very really just who which where there here
+  has have having
+`);
+
+// Words that describe the request rather than the picture.
+const FILLER = wordSet(`
+  please find show me get give search looking want need image images picture
+  pictures pic pics shot shots stock free royalty royalty-free hd 4k high
+  quality resolution showing featuring depicting photo photos photograph
+  photographs photography video videos clip clips something kind like tones
+  tone toned tint style styled vibe vibes mood
+`);
+
+// Mood and style words dropped first when a search needs broadening.
+const MODIFIERS = wordSet(`
+  cozy cosy beautiful cute nice lovely stunning gorgeous amazing warm cool
+  soft bright dark vibrant modern vintage retro aesthetic minimalist minimal
+  moody dramatic calm peaceful happy serene cinematic professional realistic
+`);
+
+// Checked against the whole phrase before the query is split into words.
+const PHRASE_HINTS: Array<[RegExp, QueryHints]> = [
+  [
+    /\b(?:black and white|black & white|b&w|monochrome)\b/g,
+    { colors: ["grayscale"] },
+  ],
+  [
+    /\b(?:portrait|vertical) (?:orientation|format|mode)\b/g,
+    { orientation: "vertical" },
+  ],
+  [
+    /\b(?:landscape|horizontal) (?:orientation|format|mode)\b/g,
+    { orientation: "horizontal" },
+  ],
+  [/\bclip ?art\b/g, { image_type: "vector" }],
+];
+
+// Words about the shape of the frame become filters and leave the query.
+const FORMAT_HINTS: Record<string, QueryHints> = {
+  vertical: { orientation: "vertical" },
+  horizontal: { orientation: "horizontal" },
+  widescreen: { orientation: "horizontal" },
+  panorama: { orientation: "horizontal" },
+  panoramic: { orientation: "horizontal" },
+  footage: { video_type: "film" },
+};
+
+// Colors and kinds of picture stay in the query, since they may be part of
+// the subject ("red panda", "oil painting"). Like category words, one
+// directly followed by another keyword is describing it and hints nothing;
+// "a panda in red" hints the color, and broadening never drops that word.
+const WORD_HINTS: Record<string, QueryHints> = {
+  grey: { colors: ["gray"] },
+  purple: { colors: ["lilac"] },
+  violet: { colors: ["lilac"] },
+  grayscale: { colors: ["grayscale"] },
+  illustration: { image_type: "illustration" },
+  illustrations: { image_type: "illustration" },
+  drawing: { image_type: "illustration" },
+  painting: { image_type: "illustration" },
+  vector: { image_type: "vector" },
+  vectors: { image_type: "vector" },
+  icon: { image_type: "vector" },
+  icons: { image_type: "vector" },
+  animated: { video_type: "animation" },
+  animation: { video_type: "animation" },
+  ...Object.fromEntries(
+    colorValues.map((color) => [color, { colors: [color] } as QueryHints])
+  ),
+};
+
+// Category names (and their singular forms) hint a category but stay in the
+// query, since they are usually the subject. One directly followed by another
+// keyword is describing it ("sports car") and hints nothing.
+const CATEGORY_WORDS = new Map<string, QueryHints["category"]>(
+  categoryValues
+    // "background" mostly describes the backdrop, not the subject.
+    .filter((category) => category !== "backgrounds")
+    .flatMap((category) => [
+      [category, category] as const,
+      [category.replace(/s$/, ""), category] as const,
+    ])
+);
+
+/**
+ * Turns a descriptive prompt ("a cozy photo of a cat sleeping on a
+ * windowsill at sunset, warm tones") into keyword queries plus inferred
+ * filters, followed by progressively broader fallbacks.
+ */
+export function planQuery(query: string, maxAttempts: number): QueryPlan {
+  const original = query.trim();
+  let text = original.toLowerCase();
+  const hints: QueryHints = {};
+
+  for (const [pattern, hint] of PHRASE_HINTS) {
+    const replaced = text.replace(pattern, " ");
+    if (replaced !== text) {
+      mergeHints(hints, hint);
+      text = replaced;
+    }
+  }
+
+  const keywords: string[] = [];
+  const hintWords = new Set<string>();
+  // Hints from the last keyword, applied unless another keyword follows it.
+  let pendingCategory: QueryHints["category"];
+  let pendingHint: { word: string; hint: QueryHints } | undefined;
+  const applyPending = () => {
+    if (pendingHint) {
+      mergeHints(hints, pendingHint.hint);
+      hintWords.add(pendingHint.word);
+    }
+    hints.category ??= pendingCategory;
+    pendingCategory = undefined;
+    pendingHint = undefined;
+  };
+  for (const word of text.match(/[\p{L}\p{N}][\p{L}\p{N}'-]*/gu) ?? []) {
+    const formatHint = FORMAT_HINTS[word];
+    if (formatHint || STOPWORDS.has(word) || FILLER.has(word)) {
+      if (formatHint) mergeHints(hints, formatHint);
+      applyPending();
+      continue;
+    }
+    pendingCategory = CATEGORY_WORDS.get(word);
+    const hint = WORD_HINTS[word];
+    pendingHint = hint ? { word, hint } : undefined;
+    if (!keywords.includes(word)) {
+      keywords.push(word);
+    }
+  }
+  applyPending();
+
+  // Nothing but filler: search what the caller wrote.
+  if (keywords.length === 0) {
+    return {
+      original,
+      candidates: [{ query: truncateQuery(original), hints: {} }],
+    };
+  }
+
+  const core = keywords.filter((word) => !MODIFIERS.has(word));
+  const candidates: QueryCandidate[] = [
+    { query: joinKeywords(keywords), hints },
+    { query: joinKeywords(core), hints },
+    { query: joinKeywords(core), hints: {} },
+    { query: joinKeywords(leading(core, 3, hintWords)), hints: {} },
+    { query: joinKeywords(leading(core, 2, hintWords)), hints: {} },
+  ];
+
+  const seen = new Set<string>();
+  const unique = candidates.filter((candidate) => {
+    const key = JSON.stringify(candidate);
+    if (candidate.query.length === 0 || seen.has(key)) {
+      return false;
+    }
+    seen.add(key);
+    return true;
+  });
+  return { original, candidates: unique.slice(0, Math.max(1, maxAttempts)) };
+}
+
+/** A plan that searches the query exactly as given. */
+export function literalPlan(query: string): QueryPlan {
+  return {
+    original: query,
+    candidates: [{ query: truncateQuery(query), hints: {} }],
+  };
+}
+
+/**
+ * Runs `search` for each candidate until one finds something, so a query
+ * that is too specific falls back to broader keywords instead of returning
+ * an empty gallery.
+ */
+export async function searchWithBroadening<T>(
+  plan: QueryPlan,
+  search: (candidate: QueryCandidate) => Promise<T>,
+  hasHits: (result: T) => boolean
+): Promise<{ result: T; rewrite: QueryRewrite }> {
+  const attempts: string[] = [];
+  let last: { result: T; candidate: QueryCandidate } | undefined;
+
+  for (const candidate of plan.candidates) {
+    attempts.push(candidate.query);
+    const result = await search(candidate);
+    last = { result, candidate };
+    if (hasHits(result)) {
+      break;
+    }
+  }
+  if (!last) {
+    throw new Error("searchWithBroadening requires at least one candidate.");
+  }
+
+  return {
+    result: last.result,
+    rewrite: {
+      original: plan.original,
+      query: last.candidate.query,
+      attempts,
+      inferred: last.candidate.hints,
+    },
+  };
+}
+
+/** Applies a candidate to image search input; the caller's filters win. */
+export function imageInputFor(
+  input: SearchImagesInput,
+  { query, hints }: QueryCandidate
+): SearchImagesInput {
+  return {
+    ...input,
+    query,
+    orientation: input.orientation ?? hints.orientation,
+    colors: input.colors ?? hints.colors,
+    category: input.category ?? hints.category,
+    image_type: input.image_type ?? hints.image_type,
+  };
+}
+
+/** Applies a candidate to video search input; the caller's filters win. */
+export function videoInputFor(
+  input: SearchVideosInput,
+  { query, hints }: QueryCandidate
+): SearchVideosInput {
+  return {
+    ...input,
+    query,
+    category: input.category ?? hints.category,
+    video_type: input.video_type ?? hints.video_type,
+  };
+}
+
+function wordSet(words: string): Set<string> {
+  return new Set(words.trim().split(/\s+/));
+}
+
+function mergeHints(target: QueryHints, hint: QueryHints) {
+  if (hint.colors) {
+    target.colors = [...new Set([...(target.colors ?? []), ...hint.colors])];
+  }
+  target.orientation ??= hint.orientation;
+  target.category ??= hint.category;
+  target.image_type ??= hint.image_type;
+  target.video_type ??= hint.video_type;
+}
+
+/** The first `count` keywords, keeping any of `keep` that come later. */
+function leading(
+  keywords: string[],
+  count: number,
+  keep: Set<string>
+): string[] {
+  let taken = 0;
+  return keywords.filter((word) => keep.has(word) || taken++ < count);
+}
+
+function joinKeywords(keywords: string[]): string {
+  return truncateQuery(keywords.join(" "));
+}
+
+/** Cuts at a word boundary so the query fits Pixabay's length limit. */
+function truncateQuery(query: string): string {
+  if (query.length <= MAX_QUERY_LENGTH) {
+    return query;
+  }
+  const cut = query.slice(0, MAX_QUERY_LENGTH + 1);
+  const boundary = cut.lastIndexOf(" ");
+  return (
+    boundary > 0 ? cut.slice(0, boundary) : cut.slice(0, MAX_QUERY_LENGTH)
+  ).trim();
+}
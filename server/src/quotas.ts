@@ -0,0 +1,159 @@
+import type { Request, RequestHandler } from "express";
+import { principalOf } from "./auth.js";
+
+export type QuotaTier = {
+  /** Requests allowed in any rolling 60 second window; 0 disables. */
+  perMinute: number;
+  /** Requests allowed per UTC day; 0 disables. */
+  perDay: number;
+};
+
+export type QuotaOptions = {
+  tiers: Record<string, QuotaTier>;
+  /** Maps client IDs or IP addresses to a tier name; others use "default". */
+  clientTiers: Record<string, string>;
+};
+
+type ClientUsage = {
+  /** Request times inside the current minute window, oldest first. */
+  recent: number[];
+  day: string;
+  dayCount: number;
+};
+
+export type QuotaDecision =
+  | { allowed: true }
+  | {
+      allowed: false;
+      window: "minute" | "day";
+      limit: number;
+      tier: string;
+      retryAfterSeconds: number;
+    };
+
+const MINUTE_MS = 60_000;
+const SWEEP_INTERVAL_MS = 60_000;
+
+/**
+ * Counts inbound requests per client with a sliding one-minute window and a
+ * daily cap, using the limits of the tier the client is assigned to.
+ */
+export class ClientQuotas {
+  private readonly usage = new Map<string, ClientUsage>();
+
+  constructor(private readonly options: QuotaOptions) {
+    setInterval(() => this.sweep(), SWEEP_INTERVAL_MS).unref();
+  }
+
+  tierFor(clientKey: string): string {
+    const tier = this.options.clientTiers[clientKey];
+    return tier && this.options.tiers[tier] ? tier : "default";
+  }
+
+  /** Records one request for the client unless it is over quota. */
+  consume(clientKey: string, now = Date.now()): QuotaDecision {
+    const tierName = this.tierFor(clientKey);
+    const tier = this.options.tiers[tierName];
+    if (!tier) {
+      return { allowed: true };
+    }
+
+    const day = new Date(now).toISOString().slice(0, 10);
+    let usage = this.usage.get(clientKey);
+    if (!usage) {
+      usage = { recent: [], day, dayCount: 0 };
+      this.usage.set(clientKey, usage);
+    }
+    if (usage.day !== day) {
+      usage.day = day;
+      usage.dayCount = 0;
+    }
+    while (usage.recent.length > 0 && usage.recent[0]! <= now - MINUTE_MS) {
+      usage.recent.shift();
+    }
+
+    if (tier.perDay > 0 && usage.dayCount >= tier.perDay) {
+      const midnight = Date.parse(`${day}T00:00:00Z`) + 24 * 60 * MINUTE_MS;
+      return {
+        allowed: false,
+        window: "day",
+        limit: tier.perDay,
+        tier: tierName,
+        retryAfterSeconds: Math.ceil((midnight - now) / 1000),
+      };
+    }
+    if (tier.perMinute > 0 && usage.recent.length >= tier.perMinute) {
+      return {
+        allowed: false,
+        window: "minute",
+        limit: tier.perMinute,
+        tier: tierName,
+        retryAfterSeconds: Math.max(
+          1,
+          Math.ceil((usage.recent[0]! + MINUTE_MS - now) / 1000)
+        ),
+      };
+    }
+
+    if (tier.perMinute > 0) {
+      usage.recent.push(now);
+    }
+    usage.dayCount += 1;
+    return { allowed: true };
+  }
+
+  private sweep() {
+    const now = Date.now();
+    const today = new Date(now).toISOString().slice(0, 10);
+    for (const [clientKey, usage] of this.usage) {
+      const idle =
+        (usage.recent.at(-1) ?? 0) <= now - MINUTE_MS && usage.day !== today;
+      if (idle) {
+        this.usage.delete(clientKey);
+      }
+    }
+  }
+}
+
+/**
+ * Identifies the caller by authenticated client ID when auth is enabled and
+ * by IP address otherwise. Sessions are not used because a client can open
+ * a new one at will.
+ */
+export function clientKeyFor(req: Request): string {
+  const principal = principalOf(req.auth);
+  if (principal) {
+    return principal.clientId;
+  }
+  return req.ip ?? req.socket.remoteAddress ?? "unknown";
+}
+
+/** Rejects over-quota requests with HTTP 429 and a JSON-RPC error. */
+export function quotaMiddleware(quotas: ClientQuotas): RequestHandler {
+  return (req, res, next) => {
+    const decision = quotas.consume(clientKeyFor(req));
+    if (decision.allowed) {
+      next();
+      return;
+    }
+
+    const period = decision.window === "day" ? "per day" : "per minute";
+    res
+      .status(429)
+      .set("Retry-After", String(decision.retryAfterSeconds))
+      .json({
+        jsonrpc: "2.0",
+        error: {
+          code: -32000,
+          message: `Request quota exceeded: the ${decision.tier} tier allows ${decision.limit} requests ${period}. Retry after ${decision.retryAfterSeconds} seconds.`,
+          data: {
+            window: decision.window,
+            limit: decision.limit,
+            tier: decision.tier,
+            retryAfterSeconds: decision.retryAfterSeconds,
+          },
+        },
+        id: null,
+      });
+  };
+}
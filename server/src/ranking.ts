@@ -0,0 +1,191 @@
+import { Ranking } from "./schemas.js";
+
+/** What the ranking stage needs to know about a result. */
+export type RankingFeatures = {
+  tags: string[];
+  /** Stable contributor identity, such as a profile URL. */
+  contributor: string;
+  width: number | null;
+  height: number | null;
+  likes: number | null;
+  downloads: number | null;
+};
+
+export type RankingOptions = {
+  ranking: Ranking;
+  /** Results per contributor before the rest are pushed down; 0 disables. */
+  maxPerContributor: number;
+};
+
+// Two shots from one contributor count as the same picture when their tag
+// sets overlap at least this much and their sizes differ by at most this.
+const DUPLICATE_TAG_SIMILARITY = 0.8;
+const DUPLICATE_SIZE_TOLERANCE = 0.02;
+
+type Scored<T> = {
+  item: T;
+  features: RankingFeatures;
+  words: Set<string>;
+  score: number;
+  position: number;
+};
+
+/**
+ * Reorders a page of results and drops near-duplicates:
+ * - `relevance` sorts by how many query terms the tags cover;
+ * - `popular` sorts by likes, then downloads;
+ * - `diverse` takes one result per contributor in turn.
+ * The first two then push a contributor's results beyond the cap to the end.
+ */
+export function rankResults<T>(
+  items: T[],
+  query: string,
+  featuresOf: (item: T) => RankingFeatures,
+  { ranking, maxPerContributor }: RankingOptions
+): { results: T[]; collapsed: number } {
+  const terms = [...new Set(tokenize(query))];
+  const scored = items.map((item, position): Scored<T> => {
+    const features = featuresOf(item);
+    const words = new Set(features.tags.flatMap(tokenize));
+    return {
+      item,
+      features,
+      words,
+      score: relevanceScore(terms, words),
+      position,
+    };
+  });
+
+  const byRelevance = [...scored].sort(
+    (a, b) => b.score - a.score || a.position - b.position
+  );
+  let ordered: Scored<T>[];
+  switch (ranking) {
+    case "popular":
+      ordered = capPerContributor(
+        [...scored].sort(
+          (a, b) =>
+            (b.features.likes ?? 0) - (a.features.likes ?? 0) ||
+            (b.features.downloads ?? 0) - (a.features.downloads ?? 0) ||
+            a.position - b.position
+        ),
+        maxPerContributor
+      );
+      break;
+    case "diverse":
+      ordered = roundRobin(byRelevance);
+      break;
+    default:
+      ordered = capPerContributor(byRelevance, maxPerContributor);
+  }
+
+  const kept: Scored<T>[] = [];
+  for (const candidate of ordered) {
+    if (!kept.some((existing) => isDuplicate(existing, candidate))) {
+      kept.push(candidate);
+    }
+  }
+
+  return {
+    results: kept.map(({ item }) => item),
+    collapsed: ordered.length - kept.length,
+  };
+}
+
+/** Share of query terms found among the tag words; 1 for an empty query. */
+function relevanceScore(terms: string[], words: Set<string>): number {
+  if (terms.length === 0) {
+    return 1;
+  }
+  const matched = terms.filter((term) => words.has(term)).length;
+  return matched / terms.length;
+}
+
+function capPerContributor<T>(
+  ordered: Scored<T>[],
+  maxPerContributor: number
+): Scored<T>[] {
+  if (maxPerContributor <= 0) {
+    return ordered;
+  }
+  const counts = new Map<string, number>();
+  const head: Scored<T>[] = [];
+  const overflow: Scored<T>[] = [];
+  for (const entry of ordered) {
+    const seen = counts.get(entry.features.contributor) ?? 0;
+    counts.set(entry.features.contributor, seen + 1);
+    (seen < maxPerContributor ? head : overflow).push(entry);
+  }
+  return [...head, ...overflow];
+}
+
+/** Contributors take turns, in the order of their best result. */
+function roundRobin<T>(ordered: Scored<T>[]): Scored<T>[] {
+  const queues = new Map<string, Scored<T>[]>();
+  for (const entry of ordered) {
+    const queue = queues.get(entry.features.contributor);
+    if (queue) {
+      queue.push(entry);
+    } else {
+      queues.set(entry.features.contributor, [entry]);
+    }
+  }
+
+  const result: Scored<T>[] = [];
+  for (let round = 0; result.length < ordered.length; round++) {
+    for (const queue of queues.values()) {
+      if (round < queue.length) {
+        result.push(queue[round]);
+      }
+    }
+  }
+  return result;
+}
+
+function isDuplicate<T>(a: Scored<T>, b: Scored<T>): boolean {
+  return (
+    a.features.contributor === b.features.contributor &&
+    similarSize(a.features, b.features) &&
+    jaccard(a.words, b.words) >= DUPLICATE_TAG_SIMILARITY
+  );
+}
+
+function similarSize(a: RankingFeatures, b: RankingFeatures): boolean {
+  if (a.width === null || a.height === null) {
+    return b.width === null || b.height === null;
+  }
+  if (b.width === null || b.height === null) {
+    return false;
+  }
+  return (
+    withinTolerance(a.width, b.width) && withinTolerance(a.height, b.height)
+  );
+}
+
+function withinTolerance(a: number, b: number): boolean {
+  return Math.abs(a - b) <= Math.max(a, b) * DUPLICATE_SIZE_TOLERANCE;
+}
+
+function jaccard(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 && b.size === 0) {
+    return 1;
+  }
+  let shared = 0;
+  for (const word of a) {
+    if (b.has(word)) shared += 1;
+  }
+  return shared / (a.size + b.size - shared);
+}
+
+/** Lowercased words with a plural "s" dropped, so "cats" matches "cat". */
+function tokenize(value: string): string[] {
+  return value
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter((word) => word.length > 0)
+    .map((word) =>
+      word.length > 3 && word.endsWith("s") && !word.endsWith("ss")
+        ? word.slice(0, -1)
+        : word
+    );
+}
@@ -0,0 +1,221 @@
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import { logger } from "./logger.js";
+
+/** Marks an upstream failure that is worth retrying (network, timeout, 5xx). */
+export class TransientUpstreamError extends Error {
+  constructor(message: string, options?: { cause?: unknown }) {
+    super(message, options);
+    this.name = "TransientUpstreamError";
+  }
+}
+
+export class UpstreamUnavailableError extends McpError {
+  constructor(message: string) {
+    super(ErrorCode.InternalError, message);
+    this.name = "UpstreamUnavailableError";
+  }
+}
+
+export type RetryOptions = {
+  retries: number;
+  baseDelayMs: number;
+  signal?: AbortSignal;
+};
+
+export async function withRetry<T>(
+  task: () => Promise<T>,
+  { retries, baseDelayMs, signal }: RetryOptions
+): Promise<T> {
+  for (let attempt = 0; ; attempt += 1) {
+    try {
+      return await task();
+    } catch (error) {
+      if (attempt >= retries || !isTransientError(error, signal)) {
+        throw error;
+      }
+      // Full jitter keeps concurrent retries from re-synchronising.
+      const backoffMs = baseDelayMs * 2 ** attempt;
+      await delay(Math.round(Math.random() * backoffMs), signal);
+    }
+  }
+}
+
+/**
+ * Fetches `url` and hands the response to `read`. The timeout covers the
+ * whole exchange, body included, so a server that sends headers and then
+ * stalls cannot hold the request open.
+ */
+export async function fetchWithTimeout<T>(
+  url: string,
+  init: RequestInit,
+  timeoutMs: number,
+  read: (response: Response) => Promise<T>,
+  signal?: AbortSignal
+): Promise<T> {
+  const controller = new AbortController();
+  let timedOut = false;
+  const timer = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, timeoutMs);
+  const onAbort = () => controller.abort(signal?.reason);
+  signal?.addEventListener("abort", onAbort, { once: true });
+
+  try {
+    const response = await fetch(url, { ...init, signal: controller.signal });
+    return await read(response);
+  } catch (error) {
+    if (timedOut) {
+      throw new TransientUpstreamError(
+        `Upstream request timed out after ${timeoutMs}ms.`,
+        { cause: error }
+      );
+    }
+    if (!signal?.aborted && error instanceof TypeError) {
+      // fetch rejects with a TypeError for DNS, connection and TLS failures.
+      throw new TransientUpstreamError(
+        `Upstream request failed: ${error.message}`,
+        { cause: error }
+      );
+    }
+    throw error;
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener("abort", onAbort);
+  }
+}
+
+export function isTransientError(
+  error: unknown,
+  signal?: AbortSignal
+): boolean {
+  return !signal?.aborted && error instanceof TransientUpstreamError;
+}
+
+export type CircuitState = "closed" | "open" | "half-open";
+
+export type CircuitBreakerOptions = {
+  name: string;
+  failureThreshold: number;
+  cooldownMs: number;
+};
+
+export class CircuitBreaker {
+  private state: CircuitState = "closed";
+  private consecutiveFailures = 0;
+  private openedAt = 0;
+  private trialInFlight = false;
+
+  constructor(private readonly options: CircuitBreakerOptions) {}
+
+  get currentState(): CircuitState {
+    return this.state;
+  }
+
+  async execute<T>(task: () => Promise<T>, signal?: AbortSignal): Promise<T> {
+    this.ensureCallable();
+
+    const isTrial = this.state === "half-open";
+    if (isTrial) {
+      this.trialInFlight = true;
+    }
+
+    try {
+      const result = await task();
+      this.recordSuccess();
+      return result;
+    } catch (error) {
+      if (isTransientError(error, signal)) {
+        this.recordFailure(error);
+        const reason = (error as Error).message;
+        throw new UpstreamUnavailableError(
+          `${this.options.name} is temporarily unavailable: ${reason}`
+        );
+      }
+      throw error;
+    } finally {
+      if (isTrial) {
+        this.trialInFlight = false;
+      }
+    }
+  }
+
+  private ensureCallable() {
+    if (this.state === "closed") {
+      return;
+    }
+
+    const elapsed = Date.now() - this.openedAt;
+    if (this.state === "open" && elapsed >= this.options.cooldownMs) {
+      this.transition("half-open");
+    }
+
+    if (this.state === "open" || this.trialInFlight) {
+      const retryAfterSeconds = Math.max(
+        1,
+        Math.ceil((this.options.cooldownMs - elapsed) / 1000)
+      );
+      throw new UpstreamUnavailableError(
+        `${this.options.name} is temporarily unavailable after repeated failures. Retry in about ${retryAfterSeconds} seconds.`
+      );
+    }
+  }
+
+  private recordSuccess() {
+    this.consecutiveFailures = 0;
+    if (this.state !== "closed") {
+      this.transition("closed");
+    }
+  }
+
+  private recordFailure(error: unknown) {
+    this.consecutiveFailures += 1;
+    if (
+      this.state === "half-open" ||
+      this.consecutiveFailures >= this.options.failureThreshold
+    ) {
+      this.openedAt = Date.now();
+      if (this.state !== "open") {
+        this.transition("open", error);
+      }
+    }
+  }
+
+  private transition(next: CircuitState, cause?: unknown) {
+    const previous = this.state;
+    this.state = next;
+    if (next === "open") {
+      logger.warn("Circuit opened; failing fast", {
+        upstream: this.options.name,
+        from: previous,
+        consecutiveFailures: this.consecutiveFailures,
+        cooldownMs: this.options.cooldownMs,
+        cause,
+      });
+    } else {
+      logger.warn("Circuit state changed", {
+        upstream: this.options.name,
+        from: previous,
+        to: next,
+      });
+    }
+  }
+}
+
+export function delay(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
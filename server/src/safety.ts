@@ -0,0 +1,152 @@
+import { logger } from "./logger.js";
+import { ContentPolicyDecision } from "./schemas.js";
+
+export type ContentPolicyOptions = {
+  /** Sends safesearch=true upstream whatever the caller asked for. */
+  forceSafeSearch: boolean;
+  /** Words or phrases matched case-insensitively as whole words. */
+  blockedTerms: string[];
+  /** Refuse queries naming a blocked term, or search without the term. */
+  queryAction: "reject" | "rewrite";
+};
+
+export type QueryReview =
+  | { action: "allow"; query: string; decision?: undefined }
+  | { action: "rewrite"; query: string; decision: ContentPolicyDecision }
+  | { action: "block"; decision: ContentPolicyDecision };
+
+type BlockedTerm = {
+  term: string;
+  pattern: RegExp;
+};
+
+const auditLog = logger.child({ component: "content-policy" });
+
+/**
+ * The operator's content rules: queries naming a blocked term are refused or
+ * stripped of it, results tagged with one are dropped, and safesearch can be
+ * forced on. Every decision that changes a search is logged for audit.
+ */
+export class ContentPolicy {
+  private readonly terms: BlockedTerm[];
+
+  constructor(private readonly options: ContentPolicyOptions) {
+    this.terms = options.blockedTerms
+      .map((term) => term.trim().toLowerCase())
+      .filter((term) => term.length > 0)
+      .map((term) => ({ term, pattern: wholeWordPattern(term) }));
+  }
+
+  reviewQuery(query: string): QueryReview {
+    const matched = this.matchingTerms(query);
+    if (matched.length === 0) {
+      return { action: "allow", query };
+    }
+
+    if (this.options.queryAction === "rewrite") {
+      let rewritten = query;
+      for (const { pattern } of this.terms) {
+        rewritten = rewritten.replace(pattern, " ");
+      }
+      rewritten = rewritten.replace(/\s+/g, " ").trim();
+      if (rewritten.length > 0) {
+        const decision: ContentPolicyDecision = {
+          action: "rewritten",
+          matchedTerms: matched,
+        };
+        auditLog.info("Query rewritten by content policy", {
+          query,
+          rewritten,
+          matchedTerms: matched,
+        });
+        return { action: "rewrite", query: rewritten, decision };
+      }
+    }
+
+    auditLog.warn("Query blocked by content policy", {
+      query,
+      matchedTerms: matched,
+    });
+    return {
+      action: "block",
+      decision: { action: "blocked", matchedTerms: matched },
+    };
+  }
+
+  /** The safesearch value to send upstream. */
+  safeSearch(requested: boolean | undefined): boolean | undefined {
+    if (!this.options.forceSafeSearch) {
+      return requested;
+    }
+    if (requested === false) {
+      auditLog.info("Safesearch forced on by content policy");
+    }
+    return true;
+  }
+
+  /**
+   * Whether a source without a safesearch filter may serve a search that asked
+   * for one. Only when safesearch is not forced; either way it is logged.
+   */
+  allowsUnfilteredSource(source: string): boolean {
+    if (this.options.forceSafeSearch) {
+      auditLog.info("Source skipped: it cannot apply forced safesearch", {
+        source,
+      });
+      return false;
+    }
+    auditLog.info("Source searched without the requested safesearch", {
+      source,
+    });
+    return true;
+  }
+
+  /** False, and logged, when an item is tagged with a blocked term. */
+  allowsItem(item: { id: number; tags: string[] }): boolean {
+    if (!this.blocksTags(item.tags)) {
+      return true;
+    }
+    auditLog.info("Item hidden by content policy", { id: item.id });
+    return false;
+  }
+
+  /** Drops results tagged with a blocked term and reports how many went. */
+  filterResults<T extends { id: number; tags: string[] }>(
+    results: T[]
+  ): { results: T[]; removed: number } {
+    if (this.terms.length === 0) {
+      return { results, removed: 0 };
+    }
+    const kept = results.filter((item) => !this.blocksTags(item.tags));
+    const removed = results.length - kept.length;
+    if (removed > 0) {
+      auditLog.info("Results hidden by content policy", {
+        removed,
+        ids: results
+          .filter((item) => !kept.includes(item))
+          .map((item) => item.id),
+      });
+    }
+    return { results: kept, removed };
+  }
+
+  private blocksTags(tags: string[]): boolean {
+    return tags.some((tag) => this.matchingTerms(tag).length > 0);
+  }
+
+  private matchingTerms(text: string): string[] {
+    return this.terms
+      .filter(({ pattern }) => {
+        pattern.lastIndex = 0;
+        return pattern.test(text);
+      })
+      .map(({ term }) => term);
+  }
+}
+
+function wholeWordPattern(term: string): RegExp {
+  const escaped = term
+    .replace(/[.*+?^${}()|[\]\\]/g, "\\$&")
+    .replace(/\s+/g, "\\s+");
+  return new RegExp(`(?<![\\p{L}\\p{N}])${escaped}(?![\\p{L}\\p{N}])`, "giu");
+}
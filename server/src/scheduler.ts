@@ -0,0 +1,162 @@
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import { delay } from "./resilience.js";
+
+export type RateLimitInfo = {
+  limit?: number;
+  remaining?: number;
+  resetSeconds?: number;
+};
+
+export type RequestSchedulerOptions = {
+  /** Human readable upstream name used in errors. */
+  name: string;
+  /** Requests held back from the budget so interactive calls still succeed. */
+  reserve: number;
+  /** Longest a call may be delayed before it is rejected instead. */
+  maxWaitMs: number;
+};
+
+export class RateLimitExceededError extends McpError {
+  constructor(
+    readonly retryAfterSeconds: number,
+    upstreamName: string
+  ) {
+    super(
+      ErrorCode.InternalError,
+      `${upstreamName} rate limit reached. Please retry after ${retryAfterSeconds} seconds.`
+    );
+    this.name = "RateLimitExceededError";
+  }
+}
+
+type InFlightRequest<T> = {
+  promise: Promise<T>;
+  controller: AbortController;
+  waiters: number;
+};
+
+export class RequestScheduler {
+  private remaining: number | undefined;
+  private resetAt = 0;
+  private active = 0;
+  private readonly inFlight = new Map<string, InFlightRequest<unknown>>();
+
+  constructor(private readonly options: RequestSchedulerOptions) {}
+
+  /**
+   * Runs `task` once the rate limit budget allows it. Identical requests that
+   * are already in flight share a single upstream call; the shared call is
+   * only aborted once every caller waiting on it has aborted.
+   */
+  async schedule<T extends { rateLimit?: RateLimitInfo }>(
+    key: string,
+    task: (signal: AbortSignal) => Promise<T>,
+    { signal }: { signal?: AbortSignal } = {}
+  ): Promise<T> {
+    let entry = this.inFlight.get(key) as InFlightRequest<T> | undefined;
+    if (!entry) {
+      const controller = new AbortController();
+      const promise = this.run(task, controller.signal).finally(() => {
+        this.inFlight.delete(key);
+      });
+      entry = { promise, controller, waiters: 0 };
+      this.inFlight.set(key, entry as InFlightRequest<unknown>);
+    }
+
+    return this.join(entry, signal);
+  }
+
+  /** Records the budget reported by an upstream response. */
+  observe(rateLimit: RateLimitInfo | undefined) {
+    if (!rateLimit) return;
+    if (typeof rateLimit.remaining === "number") {
+      this.remaining = rateLimit.remaining;
+    }
+    if (typeof rateLimit.resetSeconds === "number") {
+      this.resetAt = Date.now() + rateLimit.resetSeconds * 1000;
+    }
+  }
+
+  /** Marks the budget as exhausted, e.g. after an upstream 429. */
+  exhaust(retryAfterSeconds: number | undefined) {
+    this.remaining = 0;
+    if (typeof retryAfterSeconds === "number") {
+      this.resetAt = Date.now() + retryAfterSeconds * 1000;
+    }
+  }
+
+  private async run<T extends { rateLimit?: RateLimitInfo }>(
+    task: (signal: AbortSignal) => Promise<T>,
+    signal: AbortSignal
+  ): Promise<T> {
+    await this.waitForBudget(signal);
+
+    this.active += 1;
+    try {
+      const result = await task(signal);
+      this.observe(result.rateLimit);
+      return result;
+    } finally {
+      this.active -= 1;
+    }
+  }
+
+  private async waitForBudget(signal: AbortSignal) {
+    while (this.isBudgetExhausted()) {
+      const waitMs = this.resetAt - Date.now();
+      if (waitMs <= 0) {
+        // The window has rolled over; let the next response refresh the count.
+        this.remaining = undefined;
+        return;
+      }
+      if (waitMs > this.options.maxWaitMs) {
+        throw new RateLimitExceededError(
+          Math.ceil(waitMs / 1000),
+          this.options.name
+        );
+      }
+      await delay(waitMs, signal);
+    }
+  }
+
+  private isBudgetExhausted(): boolean {
+    if (this.remaining === undefined) {
+      return false;
+    }
+    return this.remaining - this.active <= this.options.reserve;
+  }
+
+  private async join<T>(
+    entry: InFlightRequest<T>,
+    signal: AbortSignal | undefined
+  ): Promise<T> {
+    entry.waiters += 1;
+    if (!signal) {
+      return entry.promise;
+    }
+
+    let onAbort: (() => void) | undefined;
+    const aborted = new Promise<never>((_, reject) => {
+      onAbort = () => {
+        entry.waiters -= 1;
+        if (entry.waiters === 0) {
+          entry.controller.abort(signal.reason);
+        }
+        reject(signal.reason);
+      };
+      if (signal.aborted) {
+        onAbort();
+      } else {
+        signal.addEventListener("abort", onAbort, { once: true });
+      }
+    });
+
+    try {
+      return await Promise.race([entry.promise, aborted]);
+    } finally {
+      if (onAbort) {
+        signal.removeEventListener("abort", onAbort);
+      }
+    }
+  }
+}
@@ -1,30 +1,271 @@
 import { z } from "zod";
 import { serverConfig } from "./config.js";
 
+export const mediaSourceValues = ["pixabay", "pexels", "library"] as const;
+
+export type MediaSource = (typeof mediaSourceValues)[number];
+
 const orientationValues = ["all", "horizontal", "vertical"] as const;
+const imageTypeValues = ["all", "photo", "illustration", "vector"] as const;
+const videoTypeValues = ["all", "film", "animation"] as const;
+const orderValues = ["popular", "latest"] as const;
 
-export const searchImagesInputSchema = z
+export const rankingValues = ["relevance", "popular", "diverse"] as const;
+
+export type Ranking = (typeof rankingValues)[number];
+
+export const categoryValues = [
+  "backgrounds",
+  "fashion",
+  "nature",
+  "science",
+  "education",
+  "feelings",
+  "health",
+  "people",
+  "religion",
+  "places",
+  "animals",
+  "industry",
+  "computer",
+  "food",
+  "sports",
+  "transportation",
+  "travel",
+  "buildings",
+  "business",
+  "music",
+] as const;
+
+export const colorValues = [
+  "grayscale",
+  "transparent",
+  "red",
+  "orange",
+  "yellow",
+  "green",
+  "turquoise",
+  "blue",
+  "lilac",
+  "pink",
+  "white",
+  "gray",
+  "black",
+  "brown",
+] as const;
+
+const nonNegativeIntSchema = (field: string) =>
+  z
+    .number()
+    .int()
+    .min(0, { message: `${field} must be 0 or greater.` })
+    .optional();
+
+const searchBaseShape = {
+  query: z
+    .string()
+    .trim()
+    .min(1, { message: "Please provide a search query." })
+    // Descriptive prompts are accepted; the query rewriter shortens what is
+    // sent upstream to Pixabay's 100-character limit.
+    .max(500, { message: "Queries must be 500 characters or fewer." }),
+  safesearch: z.boolean().optional(),
+  per_page: z
+    .number()
+    .int()
+    .min(3, {
+      message: `per_page must be between 3 and ${serverConfig.maxPerPage}.`,
+    })
+    .max(serverConfig.maxPerPage, {
+      message: `per_page must be between 3 and ${serverConfig.maxPerPage}.`,
+    })
+    .optional(),
+  page: z
+    .number()
+    .int()
+    .min(1, { message: "page must be 1 or greater." })
+    .optional(),
+  source: z.enum([...mediaSourceValues, "all"]).optional(),
+  multilingual: z.boolean().optional(),
+  ranking: z.enum(rankingValues).optional(),
+};
+
+export const mediaDetailsInputSchema = z
+  .object({
+    id: z
+      .number()
+      .int()
+      .positive({ message: "id must be a positive media ID." }),
+    media_type: z.enum(["image", "video"]),
+    source: z.enum(mediaSourceValues).optional(),
+  })
+  .strict();
+
+export type MediaDetailsInput = z.infer<typeof mediaDetailsInputSchema>;
+
+export const attributionFormatValues = [
+  "html",
+  "markdown",
+  "text",
+  "json-ld",
+] as const;
+
+export type AttributionFormat = (typeof attributionFormatValues)[number];
+
+export const attributionInputSchema = z
+  .object({
+    items: z
+      .array(mediaDetailsInputSchema)
+      .min(1, { message: "items must list at least one media item." })
+      .max(50, { message: "items can list at most 50 media items." })
+      .optional(),
+    formats: z
+      .array(z.enum(attributionFormatValues))
+      .min(1, { message: "formats must list at least one format." })
+      .optional(),
+  })
+  .strict();
+
+export type AttributionInput = z.infer<typeof attributionInputSchema>;
+
+const collectionReferenceSchema = z
+  .string()
+  .trim()
+  .min(1, { message: "Please name the collection to use." });
+
+const collectionItemsSchema = z
+  .array(mediaDetailsInputSchema)
+  .min(1, { message: "items must list at least one media item." })
+  .max(50, { message: "items can list at most 50 media items." });
+
+export const createCollectionInputSchema = z
   .object({
-    query: z
+    name: z
       .string()
       .trim()
-      .min(1, { message: "Please provide a search query." })
-      .max(100, { message: "Queries must be 100 characters or fewer." }),
-    orientation: z.enum(orientationValues).optional(),
-    safesearch: z.boolean().optional(),
-    per_page: z
+      .min(1, { message: "Please provide a collection name." })
+      .max(80, { message: "Collection names must be 80 characters or fewer." }),
+    description: z
+      .string()
+      .trim()
+      .max(500, { message: "Descriptions must be 500 characters or fewer." })
+      .optional(),
+  })
+  .strict();
+
+export type CreateCollectionInput = z.infer<typeof createCollectionInputSchema>;
+
+export const updateCollectionItemsInputSchema = z
+  .object({
+    collection: collectionReferenceSchema,
+    items: collectionItemsSchema,
+  })
+  .strict();
+
+export type UpdateCollectionItemsInput = z.infer<
+  typeof updateCollectionItemsInputSchema
+>;
+
+export const listCollectionsInputSchema = z.object({}).strict();
+
+export const showCollectionInputSchema = z
+  .object({
+    collection: collectionReferenceSchema,
+    page: z
       .number()
       .int()
-      .min(3, { message: "per_page must be between 3 and 20." })
-      .max(serverConfig.maxPerPage, {
-        message: `per_page must be between 3 and ${serverConfig.maxPerPage}.`,
-      })
+      .min(1, { message: "page must be 1 or greater." })
+      .optional(),
+  })
+  .strict();
+
+export type ShowCollectionInput = z.infer<typeof showCollectionInputSchema>;
+
+export const searchImagesInputSchema = z
+  .object({
+    ...searchBaseShape,
+    orientation: z.enum(orientationValues).optional(),
+    image_type: z.enum(imageTypeValues).optional(),
+    category: z.enum(categoryValues).optional(),
+    colors: z
+      .array(z.enum(colorValues))
+      .min(1, { message: "colors must list at least one color." })
       .optional(),
+    min_width: nonNegativeIntSchema("min_width"),
+    min_height: nonNegativeIntSchema("min_height"),
+    editors_choice: z.boolean().optional(),
+    order: z.enum(orderValues).optional(),
   })
   .strict();
 
 export type SearchImagesInput = z.infer<typeof searchImagesInputSchema>;
 
+export const searchVideosInputSchema = z
+  .object({
+    ...searchBaseShape,
+    video_type: z.enum(videoTypeValues).optional(),
+    category: z.enum(categoryValues).optional(),
+    min_duration: nonNegativeIntSchema("min_duration"),
+    max_duration: nonNegativeIntSchema("max_duration"),
+    min_width: nonNegativeIntSchema("min_width"),
+    min_height: nonNegativeIntSchema("min_height"),
+    editors_choice: z.boolean().optional(),
+    order: z.enum(orderValues).optional(),
+  })
+  .strict();
+
+export type SearchVideosInput = z.infer<typeof searchVideosInputSchema>;
+
+const kindCountSchema = (field: string) =>
+  z
+    .number()
+    .int()
+    .min(0, {
+      message: `${field} must be between 0 and ${serverConfig.maxPerPage}.`,
+    })
+    .max(serverConfig.maxPerPage, {
+      message: `${field} must be between 0 and ${serverConfig.maxPerPage}.`,
+    })
+    .optional();
+
+/**
+ * Input for get_internet_media. per_page is the combined size, split between
+ * kinds by video_share unless image_count/video_count pin a side explicitly.
+ */
+export const combinedSearchInputSchema = z
+  .object({
+    ...searchBaseShape,
+    video_share: z
+      .number()
+      .min(0, { message: "video_share must be between 0 and 1." })
+      .max(1, { message: "video_share must be between 0 and 1." })
+      .optional(),
+    image_count: kindCountSchema("image_count"),
+    video_count: kindCountSchema("video_count"),
+    orientation: z.enum(orientationValues).optional(),
+    image_type: z.enum(imageTypeValues).optional(),
+    colors: z
+      .array(z.enum(colorValues))
+      .min(1, { message: "colors must list at least one color." })
+      .optional(),
+    video_type: z.enum(videoTypeValues).optional(),
+    min_duration: nonNegativeIntSchema("min_duration"),
+    max_duration: nonNegativeIntSchema("max_duration"),
+    category: z.enum(categoryValues).optional(),
+    min_width: nonNegativeIntSchema("min_width"),
+    min_height: nonNegativeIntSchema("min_height"),
+    editors_choice: z.boolean().optional(),
+    order: z.enum(orderValues).optional(),
+  })
+  .strict();
+
+export type CombinedSearchInput = z.infer<typeof combinedSearchInputSchema>;
+
+export type SearchMediaInput =
+  | SearchImagesInput
+  | SearchVideosInput
+  | CombinedSearchInput;
+
 export const pixabayImageHitSchema = z.object({
   id: z.number(),
   pageURL: z.string().url(),
@@ -41,6 +282,14 @@ export const pixabayImageHitSchema = z.object({
     .nullable(),
   likes: z.number(),
   downloads: z.number(),
+  previewWidth: z.number().optional(),
+  previewHeight: z.number().optional(),
+  webformatWidth: z.number().optional(),
+  webformatHeight: z.number().optional(),
+  largeImageURL: z.string().url().optional(),
+  imageSize: z.number().optional(),
+  views: z.number().optional(),
+  comments: z.number().optional(),
 });
 
 export type PixabayImageHit = z.infer<typeof pixabayImageHitSchema>;
@@ -78,12 +327,86 @@ export const pixabayVideoHitSchema = z.object({
   views: z.number().optional(),
   downloads: z.number().optional(),
   likes: z.number().optional(),
+  comments: z.number().optional(),
 });
 
 export type PixabayVideoHit = z.infer<typeof pixabayVideoHitSchema>;
 
+export const pexelsPhotoSchema = z.object({
+  id: z.number(),
+  width: z.number(),
+  height: z.number(),
+  url: z.string().url(),
+  photographer: z.string(),
+  photographer_url: z.string().url(),
+  alt: z.string().nullable().optional(),
+  src: z.object({
+    original: z.string().url(),
+    large2x: z.string().url().optional(),
+    large: z.string().url(),
+    medium: z.string().url(),
+    small: z.string().url(),
+    portrait: z.string().url().optional(),
+    landscape: z.string().url().optional(),
+    tiny: z.string().url().optional(),
+  }),
+});
+
+export type PexelsPhoto = z.infer<typeof pexelsPhotoSchema>;
+
+export const pexelsVideoSchema = z.object({
+  id: z.number(),
+  width: z.number(),
+  height: z.number(),
+  url: z.string().url(),
+  image: urlOrEmpty.nullable().optional(),
+  duration: z.number().int().nonnegative(),
+  user: z.object({
+    id: z.number(),
+    name: z.string(),
+    url: z.string().url(),
+  }),
+  video_files: z.array(
+    z.object({
+      id: z.number(),
+      quality: z.string().nullable(),
+      file_type: z.string(),
+      width: z.number().nullable(),
+      height: z.number().nullable(),
+      link: z.string().url(),
+    })
+  ),
+});
+
+export type PexelsVideo = z.infer<typeof pexelsVideoSchema>;
+
+/**
+ * Optional `<file>.json` sidecar describing an asset in the local media
+ * library. Unknown keys are ignored so existing DAM exports can be reused.
+ */
+export const librarySidecarSchema = z.object({
+  title: z.string().optional(),
+  tags: z.union([z.array(z.string()), z.string()]).optional(),
+  creator: z.string().optional(),
+  creator_url: z.string().optional(),
+  category: z.string().optional(),
+  type: z.string().optional(),
+  editors_choice: z.boolean().optional(),
+});
+
+export type LibrarySidecar = z.infer<typeof librarySidecarSchema>;
+
+export type MediaRendition = {
+  name: string;
+  url: string;
+  width: number | null;
+  height: number | null;
+  sizeBytes: number | null;
+};
+
 export type ImageResult = {
   id: number;
+  source: MediaSource;
   previewUrl: string;
   pageUrl: string;
   imageUrl: string;
@@ -94,12 +417,17 @@ export type ImageResult = {
     name: string;
     profileUrl: string;
   };
-  likes: number;
-  downloads: number;
+  likes: number | null;
+  downloads: number | null;
+  /** Every size the source offers, smallest first where known. */
+  renditions: MediaRendition[];
+  /** Set by multilingual searches: the language that found this item. */
+  language?: string;
 };
 
 export type VideoResult = {
   id: number;
+  source: MediaSource;
   pageUrl: string;
   videoUrl: string;
   previewImageUrl: string | null;
@@ -113,6 +441,128 @@ export type VideoResult = {
   };
   likes: number | null;
   downloads: number | null;
+  /** Every size the source offers, smallest first where known. */
+  renditions: MediaRendition[];
+  /** Set by multilingual searches: the language that found this item. */
+  language?: string;
+};
+
+export type AppliedFilters = Record<
+  string,
+  string | number | boolean | string[]
+>;
+
+export type PaginationInfo = {
+  page: number;
+  perPage: number;
+  hasMore: boolean;
+  nextPage: number | null;
+};
+
+export type SearchNotice = {
+  code:
+    | "rate_limited"
+    | "provider_unavailable"
+    | "search_failed"
+    | "query_broadened"
+    | "language_fallback"
+    | "language_failed"
+    | "policy_blocked"
+    | "policy_rewritten"
+    | "policy_filtered"
+    | "safesearch_unsupported"
+    | "collection_items_unavailable"
+    | "duplicates_collapsed";
+  message: string;
+  retryAfterSeconds?: number;
+};
+
+export type MediaStats = {
+  likes: number | null;
+  downloads: number | null;
+  views: number | null;
+  comments: number | null;
+};
+
+export type MediaLicense = {
+  name: string;
+  url: string | null;
+  summary: string;
+};
+
+export type MediaDetails = {
+  mediaType: "image" | "video";
+  id: number;
+  source: MediaSource;
+  renditions: MediaRendition[];
+  stats: MediaStats;
+  license: MediaLicense;
+};
+
+/**
+ * What a collection keeps to credit an item. URLs served by this server are
+ * left out because they are signed and tied to its public base URL.
+ */
+export type CollectionCredit = {
+  creatorName: string;
+  creatorUrl: string | null;
+  pageUrl: string | null;
+  tags: string[];
+};
+
+/** A saved reference; the result itself is fetched again when shown. */
+export type CollectionItem = {
+  mediaType: "image" | "video";
+  id: number;
+  source: MediaSource;
+  addedAt: string;
+  credit: CollectionCredit;
+};
+
+export type Collection = {
+  id: string;
+  name: string;
+  description: string | null;
+  /** Authenticated subject that created the collection, when known. */
+  createdBy: string | null;
+  createdAt: string;
+  updatedAt: string;
+  items: CollectionItem[];
+};
+
+export type CollectionSummary = {
+  id: string;
+  name: string;
+  description: string | null;
+  imageCount: number;
+  videoCount: number;
+  updatedAt: string;
+};
+
+/** Filters read from the wording of a query, named like the tool inputs. */
+export type QueryHints = {
+  orientation?: "horizontal" | "vertical";
+  colors?: Array<(typeof colorValues)[number]>;
+  category?: (typeof categoryValues)[number];
+  image_type?: "illustration" | "vector";
+  video_type?: "film" | "animation";
+};
+
+/** How a descriptive query was turned into what was actually searched. */
+export type QueryRewrite = {
+  original: string;
+  /** The keywords sent upstream for the results returned. */
+  query: string;
+  /** Every query tried, in order; more than one means it was broadened. */
+  attempts: string[];
+  /** Filters inferred from the wording of the query that was used. */
+  inferred: QueryHints;
+};
+
+/** What the operator's content policy did to a query. */
+export type ContentPolicyDecision = {
+  action: "blocked" | "rewritten";
+  matchedTerms: string[];
 };
 
 export type MediaSearchStructuredContent = {
@@ -121,5 +571,19 @@ export type MediaSearchStructuredContent = {
   videoCount: number;
   images: ImageResult[];
   videos: VideoResult[];
+  pagination: PaginationInfo;
+  filters: AppliedFilters;
+  notices: SearchNotice[];
+  sources: MediaSource[];
   attribution: string;
+  /** Set by get_media_details; the widget focuses this item. */
+  details?: MediaDetails;
+  /** Set by show_collection; the widget titles the gallery with it. */
+  collection?: CollectionSummary;
+  /** Set by searches; the keywords actually sent upstream. */
+  rewrite?: QueryRewrite;
+  /** Set by searches; the languages the query was run in. */
+  languages?: string[];
+  /** Set when the content policy blocked or rewrote the query. */
+  policy?: ContentPolicyDecision;
 };
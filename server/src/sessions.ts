@@ -0,0 +1,217 @@
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import {
+  EventStore,
+  StreamableHTTPServerTransport,
+} from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import type { JSONRPCMessage } from "@modelcontextprotocol/sdk/types.js";
+import { randomUUID } from "node:crypto";
+import type { IncomingMessage, ServerResponse } from "node:http";
+import { logger } from "./logger.js";
+
+export type SessionOptions = {
+  idleTimeoutSeconds: number;
+  maxSessions: number;
+  maxEvents: number;
+};
+
+type StoredEvent = {
+  streamId: string;
+  message: JSONRPCMessage;
+};
+
+type Session = {
+  server: McpServer;
+  transport: StreamableHTTPServerTransport;
+  /** The authenticated principal that initialized it, if auth is on. */
+  owner: string | null;
+  lastSeen: number;
+  /** Requests still being answered, such as a long-lived GET SSE stream. */
+  openRequests: number;
+};
+
+const SWEEP_INTERVAL_MS = 60_000;
+
+/**
+ * Keeps the most recent messages of one session so a client that lost its SSE
+ * stream can reconnect with `Last-Event-ID` and receive what it missed.
+ */
+export class SessionEventStore implements EventStore {
+  private readonly events = new Map<string, StoredEvent>();
+  private sequence = 0;
+
+  constructor(private readonly maxEvents: number) {}
+
+  async storeEvent(streamId: string, message: JSONRPCMessage): Promise<string> {
+    this.sequence += 1;
+    const eventId = `${streamId}_${this.sequence}`;
+    this.events.set(eventId, { streamId, message });
+    while (this.events.size > this.maxEvents) {
+      const oldest = this.events.keys().next().value;
+      if (oldest === undefined) break;
+      this.events.delete(oldest);
+    }
+    return eventId;
+  }
+
+  async replayEventsAfter(
+    lastEventId: string,
+    {
+      send,
+    }: { send: (eventId: string, message: JSONRPCMessage) => Promise<void> }
+  ): Promise<string> {
+    const last = this.events.get(lastEventId);
+    if (!last) {
+      return "";
+    }
+
+    // Map iteration follows insertion order, which is event order.
+    let found = false;
+    for (const [eventId, event] of this.events) {
+      if (eventId === lastEventId) {
+        found = true;
+        continue;
+      }
+      if (found && event.streamId === last.streamId) {
+        await send(eventId, event.message);
+      }
+    }
+    return last.streamId;
+  }
+}
+
+/**
+ * Owns one MCP server and transport per `Mcp-Session-Id`. Sessions are
+ * registered once the client's initialize request succeeds and are closed on
+ * DELETE, after sitting idle too long, or when the registry is full.
+ */
+export class SessionRegistry {
+  private readonly sessions = new Map<string, Session>();
+  private readonly sweeper: NodeJS.Timeout;
+
+  constructor(
+    private readonly options: SessionOptions,
+    private readonly createServer: () => McpServer,
+    private readonly onSessionClosed: (sessionId: string) => void = () =>
+      undefined
+  ) {
+    this.sweeper = setInterval(() => {
+      void this.sweep();
+    }, SWEEP_INTERVAL_MS);
+    this.sweeper.unref();
+  }
+
+  get size(): number {
+    return this.sessions.size;
+  }
+
+  /**
+   * Returns the transport for a live session, which counts as active until
+   * `response` ends. Another principal's session is treated as unknown.
+   */
+  get(
+    sessionId: string,
+    owner: string | null,
+    response: ServerResponse
+  ): StreamableHTTPServerTransport | undefined {
+    const session = this.sessions.get(sessionId);
+    if (!session || session.owner !== owner) {
+      return undefined;
+    }
+    session.lastSeen = Date.now();
+    session.openRequests += 1;
+    response.once("close", () => {
+      session.openRequests -= 1;
+      session.lastSeen = Date.now();
+    });
+    // Re-insert so the map stays ordered from least to most recently used.
+    this.sessions.delete(sessionId);
+    this.sessions.set(sessionId, session);
+    return session.transport;
+  }
+
+  /**
+   * Answers a request from a client that has no session yet. The server and
+   * transport made for it only join the registry if the request turns out to
+   * be an initialize; otherwise they are closed again.
+   */
+  async handleUnbound(
+    owner: string | null,
+    req: IncomingMessage,
+    res: ServerResponse
+  ): Promise<void> {
+    const server = this.createServer();
+    const transport: StreamableHTTPServerTransport =
+      new StreamableHTTPServerTransport({
+        sessionIdGenerator: () => randomUUID(),
+        eventStore: new SessionEventStore(this.options.maxEvents),
+        onsessioninitialized: (sessionId) => {
+          this.sessions.set(sessionId, {
+            server,
+            transport,
+            owner,
+            lastSeen: Date.now(),
+            openRequests: 0,
+          });
+          void this.enforceLimit();
+        },
+        onsessionclosed: (sessionId) => {
+          this.forget(sessionId);
+        },
+      });
+    await server.connect(transport);
+    try {
+      await transport.handleRequest(req, res);
+    } finally {
+      if (transport.sessionId === undefined) {
+        await server.close().catch((error: unknown) => {
+          logger.warn("Failed to close unused MCP server", { error });
+        });
+      }
+    }
+  }
+
+  /** Closes every session, ending their open SSE streams. */
+  async closeAll(): Promise<void> {
+    clearInterval(this.sweeper);
+    await Promise.all(
+      [...this.sessions.keys()].map((sessionId) => this.close(sessionId))
+    );
+  }
+
+  private async sweep() {
+    const cutoff = Date.now() - this.options.idleTimeoutSeconds * 1000;
+    const idle = [...this.sessions.entries()]
+      .filter(
+        ([, session]) => session.openRequests === 0 && session.lastSeen < cutoff
+      )
+      .map(([sessionId]) => sessionId);
+    await Promise.all(idle.map((sessionId) => this.close(sessionId)));
+  }
+
+  private async enforceLimit() {
+    while (this.sessions.size > this.options.maxSessions) {
+      const oldest = this.sessions.keys().next().value;
+      if (oldest === undefined) break;
+      await this.close(oldest);
+    }
+  }
+
+  private async close(sessionId: string) {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      return;
+    }
+    this.forget(sessionId);
+    try {
+      await session.server.close();
+    } catch (error) {
+      logger.warn("Failed to close MCP session", { sessionId, error });
+    }
+  }
+
+  private forget(sessionId: string) {
+    if (this.sessions.delete(sessionId)) {
+      this.onSessionClosed(sessionId);
+    }
+  }
+}
@@ -0,0 +1,35 @@
+import { createHmac, randomBytes, timingSafeEqual } from "node:crypto";
+import { serverConfig } from "./config.js";
+
+const SIGNATURE_PARAM = "sig";
+
+// Without a configured key, signed URLs stay valid until the next restart.
+const signingKey =
+  serverConfig.urlSigningKey ?? randomBytes(32).toString("hex");
+
+/**
+ * Appends an HMAC of the path, so the file routes only serve URLs this server
+ * handed out. Media URLs end up in <img> and <video> tags, which cannot carry
+ * a bearer token.
+ */
+export function signPath(path: string): string {
+  return `${path}?${SIGNATURE_PARAM}=${sign(path)}`;
+}
+
+/** Checks the signature query parameter of a request for `path`. */
+export function hasValidSignature(
+  path: string,
+  query: Record<string, unknown>
+): boolean {
+  const signature = query[SIGNATURE_PARAM];
+  if (typeof signature !== "string") {
+    return false;
+  }
+  const expected = Buffer.from(sign(path));
+  const actual = Buffer.from(signature);
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+function sign(path: string): string {
+  return createHmac("sha256", signingKey).update(path).digest("base64url");
+}
@@ -0,0 +1,191 @@
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import { serverConfig } from "./config.js";
+import { logger, redactUrl } from "./logger.js";
+import {
+  upstreamRateLimitRemaining,
+  upstreamRequestDuration,
+} from "./metrics.js";
+import {
+  CircuitBreaker,
+  TransientUpstreamError,
+  fetchWithTimeout,
+  withRetry,
+} from "./resilience.js";
+import {
+  RateLimitExceededError,
+  RateLimitInfo,
+  RequestScheduler,
+} from "./scheduler.js";
+
+export class UpstreamHttpError extends McpError {
+  constructor(
+    readonly status: number,
+    message: string
+  ) {
+    super(ErrorCode.InternalError, message);
+    this.name = "UpstreamHttpError";
+  }
+}
+
+export type UpstreamClientOptions = {
+  /** Human readable upstream name used in errors and logs. */
+  name: string;
+  /** Environment variable holding the credential, named in auth errors. */
+  apiKeyEnvVar: string;
+  parseRateLimit: (headers: Headers) => RateLimitInfo;
+  headers?: Record<string, string>;
+};
+
+/**
+ * Shared transport for upstream JSON APIs: every call goes through the
+ * circuit breaker, then the rate limit scheduler, then bounded retries.
+ */
+export class UpstreamClient {
+  private readonly scheduler: RequestScheduler;
+  private readonly breaker: CircuitBreaker;
+
+  constructor(private readonly options: UpstreamClientOptions) {
+    this.scheduler = new RequestScheduler({
+      ...serverConfig.rateLimit,
+      name: options.name,
+    });
+    this.breaker = new CircuitBreaker({
+      name: options.name,
+      failureThreshold: serverConfig.upstream.breakerFailureThreshold,
+      cooldownMs: serverConfig.upstream.breakerCooldownMs,
+    });
+  }
+
+  async getJson<T>(
+    url: string,
+    { signal }: { signal?: AbortSignal } = {}
+  ): Promise<{ json: T; rateLimit: RateLimitInfo }> {
+    return this.breaker.execute(
+      () =>
+        this.scheduler.schedule(
+          url,
+          (sharedSignal) => this.fetchJson<T>(url, sharedSignal),
+          { signal }
+        ),
+      signal
+    );
+  }
+
+  private async fetchJson<T>(
+    url: string,
+    signal: AbortSignal
+  ): Promise<{ json: T; rateLimit: RateLimitInfo }> {
+    const log = logger.child({
+      upstream: this.options.name,
+      url: redactUrl(url),
+    });
+    return withRetry(
+      async () => {
+        const startedAt = Date.now();
+        const endTimer = upstreamRequestDuration.startTimer();
+        let status = "error";
+        let errorResponse = false;
+        try {
+          return await fetchWithTimeout(
+            url,
+            {
+              method: "GET",
+              headers: {
+                Accept: "application/json",
+                ...this.options.headers,
+              },
+            },
+            serverConfig.upstream.timeoutMs,
+            async (response) => {
+              status = String(response.status);
+              const rateLimit = this.options.parseRateLimit(response.headers);
+              if (typeof rateLimit.remaining === "number") {
+                upstreamRateLimitRemaining.set(
+                  { upstream: this.options.name },
+                  rateLimit.remaining
+                );
+              }
+              log[response.ok ? "debug" : "warn"](
+                "Upstream request completed",
+                {
+                  status: response.status,
+                  durationMs: Date.now() - startedAt,
+                  rateLimitRemaining: rateLimit.remaining,
+                }
+              );
+
+              if (!response.ok) {
+                errorResponse = true;
+                await this.throwForErrorResponse(response, rateLimit);
+              }
+
+              const json = (await response.json()) as T;
+              return { json, rateLimit };
+            },
+            signal
+          );
+        } catch (error) {
+          if (!errorResponse) {
+            // No response, or its body could not be read in time.
+            status = "error";
+            log.warn("Upstream request failed", {
+              durationMs: Date.now() - startedAt,
+              error,
+            });
+          }
+          throw error;
+        } finally {
+          endTimer({ upstream: this.options.name, status });
+        }
+      },
+      {
+        retries: serverConfig.upstream.maxRetries,
+        baseDelayMs: serverConfig.upstream.retryBaseDelayMs,
+        signal,
+      }
+    );
+  }
+
+  private async throwForErrorResponse(
+    response: Response,
+    rateLimit: RateLimitInfo
+  ): Promise<never> {
+    const { name, apiKeyEnvVar } = this.options;
+    const message = await this.safeReadError(response);
+    if (response.status === 401 || response.status === 403) {
+      throw new UpstreamHttpError(
+        response.status,
+        `${name} authentication failed. Verify ${apiKeyEnvVar}.`
+      );
+    }
+    if (response.status === 429) {
+      const retryAfterSeconds = rateLimit.resetSeconds ?? 60;
+      this.scheduler.exhaust(retryAfterSeconds);
+      throw new RateLimitExceededError(retryAfterSeconds, name);
+    }
+    if (response.status >= 500) {
+      throw new TransientUpstreamError(
+        `${name} request failed (${response.status}): ${message}`
+      );
+    }
+    throw new UpstreamHttpError(
+      response.status,
+      `${name} request failed (${response.status}): ${message}`
+    );
+  }
+
+  private async safeReadError(response: Response): Promise<string> {
+    try {
+      const text = await response.text();
+      return text.trim() || response.statusText;
+    } catch {
+      return response.statusText;
+    }
+  }
+}
+
+export function parseHeader(value: string | null): number | undefined {
+  if (!value) return undefined;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : undefined;
+}
@@ -0,0 +1,99 @@
+import assert from "node:assert/strict";
+import { generateKeyPairSync, sign, type KeyObject } from "node:crypto";
+import { after, describe, it } from "node:test";
+import { MockUpstream, useMockUpstream } from "./mock-upstream.js";
+
+const upstream = await MockUpstream.start();
+useMockUpstream(upstream);
+const { AccessTokenVerifier } = await import("../src/auth.js");
+const { InvalidTokenError } = await import(
+  "@modelcontextprotocol/sdk/server/auth/errors.js"
+);
+
+after(() => upstream.close());
+
+const ISSUER = "https://issuer.example";
+const AUDIENCE = "https://mcp.example/mcp";
+
+const rsa = generateKeyPairSync("rsa", { modulusLength: 2048 });
+const ec = generateKeyPairSync("ec", { namedCurve: "P-256" });
+
+function jwk(key: KeyObject, kid: string, alg?: string) {
+  return { ...key.export({ format: "jwk" }), kid, use: "sig", alg };
+}
+
+function token(
+  header: Record<string, unknown>,
+  signWith: (data: Buffer) => Buffer
+): string {
+  const encode = (value: unknown) =>
+    Buffer.from(JSON.stringify(value)).toString("base64url");
+  const claims = {
+    iss: ISSUER,
+    aud: AUDIENCE,
+    sub: "alice",
+    exp: Math.floor(Date.now() / 1000) + 300,
+  };
+  const data = `${encode(header)}.${encode(claims)}`;
+  return `${data}.${signWith(Buffer.from(data)).toString("base64url")}`;
+}
+
+function verifier() {
+  upstream.respond(() => ({
+    body: {
+      keys: [
+        jwk(rsa.publicKey, "rsa-key", "RS256"),
+        jwk(ec.publicKey, "ec-key"),
+      ],
+    },
+  }));
+  return new AccessTokenVerifier({
+    tokens: [],
+    issuer: ISSUER,
+    jwksUrl: `${upstream.url}/jwks`,
+    audience: AUDIENCE,
+    requiredScopes: [],
+  });
+}
+
+describe("AccessTokenVerifier", () => {
+  it("accepts tokens signed with the key their algorithm names", async () => {
+    const auth = verifier();
+
+    const rs256 = token({ alg: "RS256", kid: "rsa-key" }, (data) =>
+      sign("sha256", data, rsa.privateKey)
+    );
+    const es256 = token({ alg: "ES256", kid: "ec-key" }, (data) =>
+      sign("sha256", data, { key: ec.privateKey, dsaEncoding: "ieee-p1363" })
+    );
+
+    assert.equal((await auth.verifyAccessToken(rs256)).clientId, "alice");
+    assert.equal((await auth.verifyAccessToken(es256)).clientId, "alice");
+  });
+
+  it("rejects an algorithm that does not fit the key", async () => {
+    const auth = verifier();
+
+    // An ES256 header pointing at the RSA key.
+    const mismatched = token({ alg: "ES256", kid: "rsa-key" }, () =>
+      Buffer.alloc(64)
+    );
+    // RS512 is an RSA algorithm, but the JWK pins the key to RS256.
+    const pinned = token({ alg: "RS512", kid: "rsa-key" }, (data) =>
+      sign("sha512", data, rsa.privateKey)
+    );
+
+    await assert.rejects(auth.verifyAccessToken(mismatched), InvalidTokenError);
+    await assert.rejects(auth.verifyAccessToken(pinned), InvalidTokenError);
+  });
+
+  it("reports an unverifiable signature as an invalid token", async () => {
+    const auth = verifier();
+
+    const garbled = token({ alg: "PS256", kid: "rsa-key" }, () =>
+      Buffer.from("not a signature")
+    );
+
+    await assert.rejects(auth.verifyAccessToken(garbled), InvalidTokenError);
+  });
+});
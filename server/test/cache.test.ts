@@ -0,0 +1,168 @@
+import assert from "node:assert/strict";
+import { mkdtemp, readdir, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { after, afterEach, describe, it, mock } from "node:test";
+import type { ImageSearchResult, MediaProvider } from "../src/provider.js";
+import type { RateLimitInfo } from "../src/scheduler.js";
+
+// The config loaded on import needs a key.
+process.env.PIXABAY_API_KEY = "test-pixabay-key";
+process.env.LOG_LEVEL = "error";
+const { CachingMediaProvider, SearchCache, buildSearchCacheKey } =
+  await import("../src/cache.js");
+const { UpstreamUnavailableError } = await import("../src/resilience.js");
+
+const directory = await mkdtemp(join(tmpdir(), "search-cache-"));
+after(() => rm(directory, { recursive: true, force: true }));
+afterEach(() => mock.restoreAll());
+
+const TTL_SECONDS = 60;
+
+/** A result page told apart by its hit count. */
+function page(
+  totalHits: number,
+  rateLimit?: RateLimitInfo
+): ImageSearchResult {
+  return {
+    results: [],
+    totalHits,
+    pagination: { page: 1, perPage: 6, hasMore: false, nextPage: null },
+    filters: {},
+    ...(rateLimit ? { rateLimit } : {}),
+  };
+}
+
+function cache(options: { maxEntries?: number; directory?: string } = {}) {
+  return new SearchCache<ImageSearchResult>({
+    ttlSeconds: TTL_SECONDS,
+    maxEntries: options.maxEntries ?? 10,
+    directory: options.directory ?? null,
+  });
+}
+
+/** Moves Date.now forward by `seconds` from the real clock. */
+function advanceClock(seconds: number) {
+  const now = Date.now() + seconds * 1000;
+  mock.method(Date, "now", () => now);
+}
+
+/** A provider whose image search returns or throws what the test queues. */
+function providerWith(outcomes: Array<ImageSearchResult | Error>) {
+  let calls = 0;
+  const provider: MediaProvider = {
+    id: "pexels",
+    displayName: "Pexels",
+    attribution: "Pexels under the Pexels License",
+    license: { name: "Pexels License", url: null, summary: "" },
+    supportsSafeSearch: false,
+    searchImages: async () => {
+      calls += 1;
+      const outcome = outcomes.shift()!;
+      if (outcome instanceof Error) throw outcome;
+      return outcome;
+    },
+    searchVideos: async () => {
+      throw new Error("unused");
+    },
+    getImage: async () => null,
+    getVideo: async () => null,
+  };
+  const caching = new CachingMediaProvider(
+    provider,
+    cache(),
+    new SearchCache({ ttlSeconds: 0, maxEntries: 0, directory: null })
+  );
+  return {
+    search: () => caching.searchImages({ query: "red panda", locale: "en" }),
+    calls: () => calls,
+  };
+}
+
+describe("SearchCache", () => {
+  it("expires entries after the TTL but keeps them as stale", async () => {
+    const entries = cache();
+    await entries.set("key", page(1));
+
+    assert.deepEqual(await entries.get("key"), page(1));
+    advanceClock(TTL_SECONDS + 1);
+    assert.equal(await entries.get("key"), undefined);
+    assert.deepEqual(await entries.getStale("key"), page(1));
+  });
+
+  it("evicts the least recently used entry", async () => {
+    const entries = cache({ maxEntries: 2 });
+    await entries.set("a", page(1));
+    await entries.set("b", page(2));
+    await entries.get("a");
+    await entries.set("c", page(3));
+
+    assert.deepEqual(await entries.get("a"), page(1));
+    assert.equal(await entries.get("b"), undefined);
+    assert.deepEqual(await entries.get("c"), page(3));
+  });
+
+  it("reads entries another instance wrote to disk", async () => {
+    await cache({ directory }).set("key", page(1));
+
+    assert.deepEqual(await cache({ directory }).get("key"), page(1));
+
+    // A file past its stale window is deleted when read.
+    advanceClock(TTL_SECONDS * 2 + 1);
+    assert.equal(await cache({ directory }).getStale("key"), undefined);
+    assert.deepEqual(await readdir(directory), []);
+  });
+});
+
+describe("buildSearchCacheKey", () => {
+  it("ignores query case, spacing and filter order", () => {
+    assert.equal(
+      buildSearchCacheKey("pixabay", "images", {
+        query: " Red  Panda ",
+        locale: "en-US",
+        colors: ["red", "orange"],
+        order: "popular",
+      }),
+      buildSearchCacheKey("pixabay", "images", {
+        order: "popular",
+        colors: ["orange", "red"],
+        query: "red panda",
+        locale: "en-GB",
+      })
+    );
+  });
+});
+
+describe("CachingMediaProvider", () => {
+  it("serves repeats from the cache without rate limit details", async () => {
+    const { search, calls } = providerWith([page(1, { remaining: 99 })]);
+
+    const first = await search();
+    const second = await search();
+
+    assert.equal(first.cacheStatus, "miss");
+    assert.deepEqual(first.rateLimit, { remaining: 99 });
+    assert.equal(second.cacheStatus, "hit");
+    assert.equal(second.rateLimit, undefined);
+    assert.equal(second.totalHits, 1);
+    assert.equal(calls(), 1);
+  });
+
+  it("falls back to a stale entry while the upstream is down", async () => {
+    const { search, calls } = providerWith([
+      page(1),
+      new UpstreamUnavailableError("Pexels is temporarily unavailable"),
+      new Error("bad request"),
+    ]);
+    await search();
+
+    advanceClock(TTL_SECONDS + 1);
+    const stale = await search();
+    assert.equal(stale.cacheStatus, "stale");
+    assert.equal(stale.totalHits, 1);
+
+    // Other failures are not papered over.
+    await assert.rejects(search(), /bad request/);
+    assert.equal(calls(), 3);
+  });
+});
@@ -0,0 +1,91 @@
+import assert from "node:assert/strict";
+import { mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { after, describe, it } from "node:test";
+import type { ImageResult } from "../src/schemas.js";
+
+// The config loaded on import needs a key.
+process.env.PIXABAY_API_KEY = "test-pixabay-key";
+process.env.PUBLIC_BASE_URL = "https://media.example.com";
+const { CollectionStore, toCollectionItem } = await import(
+  "../src/collections.js"
+);
+
+const directory = await mkdtemp(join(tmpdir(), "collections-"));
+after(() => rm(directory, { recursive: true, force: true }));
+
+const signed = "https://media.example.com/library/abc?sig=old";
+
+function libraryImage(): ImageResult {
+  return {
+    id: 7,
+    source: "library",
+    previewUrl: signed,
+    pageUrl: signed,
+    imageUrl: signed,
+    imageWidth: 800,
+    imageHeight: 600,
+    tags: ["harbor"],
+    photographer: { name: "Ana", profileUrl: "https://ana.example.org" },
+    likes: null,
+    downloads: null,
+    renditions: [
+      { name: "original", url: signed, width: 800, height: 600, sizeBytes: 1 },
+    ],
+  };
+}
+
+describe("CollectionStore", () => {
+  it("keeps references and credits without signed URLs", () => {
+    const item = toCollectionItem("image", libraryImage(), "2026-01-01");
+
+    assert.deepEqual(item, {
+      mediaType: "image",
+      id: 7,
+      source: "library",
+      addedAt: "2026-01-01",
+      credit: {
+        creatorName: "Ana",
+        creatorUrl: "https://ana.example.org",
+        pageUrl: null,
+        tags: ["harbor"],
+      },
+    });
+  });
+
+  it("upgrades snapshots saved by the first file format", async () => {
+    const path = join(directory, "collections.json");
+    const collection = {
+      id: "c1",
+      name: "Harbors",
+      description: null,
+      createdBy: null,
+      createdAt: "2026-01-01",
+      updatedAt: "2026-01-01",
+      items: [
+        {
+          mediaType: "image",
+          id: 7,
+          source: "library",
+          addedAt: "2026-01-01",
+          snapshot: libraryImage(),
+        },
+      ],
+    };
+    await writeFile(
+      path,
+      JSON.stringify({ version: 1, collections: [collection] })
+    );
+    const store = new CollectionStore(path);
+
+    const [item] = (await store.get("harbors")).items;
+    assert.equal(item?.credit.creatorName, "Ana");
+    assert.equal(item?.credit.pageUrl, null);
+
+    await store.create("Boats", undefined, null);
+    const saved = await readFile(path, "utf8");
+    assert.equal(JSON.parse(saved).version, 2);
+    assert.doesNotMatch(saved, /sig=old/);
+  });
+});
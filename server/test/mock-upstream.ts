@@ -0,0 +1,95 @@
+import {
+  createServer,
+  type IncomingHttpHeaders,
+  type Server,
+} from "node:http";
+import type { AddressInfo } from "node:net";
+
+export type MockRequest = {
+  url: URL;
+  headers: IncomingHttpHeaders;
+};
+
+export type MockResponse = {
+  status?: number;
+  headers?: Record<string, string>;
+  body?: unknown;
+};
+
+type Handler = (request: MockRequest) => MockResponse;
+
+/**
+ * A local HTTP server standing in for the stock media APIs. Tests set the
+ * handler per case and inspect the requests it received.
+ */
+export class MockUpstream {
+  readonly requests: MockRequest[] = [];
+  private handler: Handler = () => ({ status: 404, body: "Not Found" });
+
+  private constructor(private readonly server: Server) {
+    server.on("request", (req, res) => {
+      const request = {
+        url: new URL(req.url ?? "/", this.url),
+        headers: req.headers,
+      };
+      this.requests.push(request);
+      const { status = 200, headers = {}, body } = this.handler(request);
+      const text = typeof body === "string" ? body : JSON.stringify(body);
+      res.writeHead(status, {
+        "content-type":
+          typeof body === "string" ? "text/plain" : "application/json",
+        ...headers,
+      });
+      res.end(text);
+    });
+  }
+
+  static async start(): Promise<MockUpstream> {
+    const server = createServer();
+    await new Promise<void>((resolve) => {
+      server.listen(0, "127.0.0.1", () => resolve());
+    });
+    return new MockUpstream(server);
+  }
+
+  get url(): string {
+    const { port } = this.server.address() as AddressInfo;
+    return `http://127.0.0.1:${port}`;
+  }
+
+  respond(handler: Handler) {
+    this.handler = handler;
+    this.requests.length = 0;
+  }
+
+  close(): Promise<void> {
+    return new Promise((resolve) => {
+      this.server.closeAllConnections();
+      this.server.close(() => resolve());
+    });
+  }
+}
+
+/**
+ * Points the server config at the mock. The config is read once, when the
+ * first source module is imported, so call this before importing any.
+ */
+export function useMockUpstream(upstream: MockUpstream) {
+  Object.assign(process.env, {
+    PIXABAY_API_KEY: "test-pixabay-key",
+    PIXABAY_BASE_URL: `${upstream.url}/pixabay/`,
+    PIXABAY_VIDEO_BASE_URL: `${upstream.url}/pixabay/videos/`,
+    PEXELS_API_KEY: "test-pexels-key",
+    PEXELS_BASE_URL: `${upstream.url}/pexels/`,
+    PEXELS_VIDEO_BASE_URL: `${upstream.url}/pexels/videos/`,
+    PIXABAY_MAX_RETRIES: "0",
+    LOG_LEVEL: "error",
+  });
+}
+
+/** Serves `items` in pages the way both stock APIs do. */
+export function pageOf<T>(items: T[], request: MockRequest): T[] {
+  const page = Number(request.url.searchParams.get("page") ?? 1);
+  const perPage = Number(request.url.searchParams.get("per_page") ?? 20);
+  return items.slice((page - 1) * perPage, page * perPage);
+}
@@ -0,0 +1,201 @@
+import assert from "node:assert/strict";
+import { after, describe, it } from "node:test";
+import { MockUpstream, pageOf, useMockUpstream } from "./mock-upstream.js";
+
+const upstream = await MockUpstream.start();
+useMockUpstream(upstream);
+const { PexelsClient } = await import("../src/pexels.js");
+
+after(() => upstream.close());
+
+function photo(id: number, width = 4000, height = 3000) {
+  const src = (size: string) => `https://images.pexels.com/${id}/${size}.jpg`;
+  return {
+    id,
+    width,
+    height,
+    url: `https://www.pexels.com/photo/brown-rocks-during-golden-hour-${id}/`,
+    photographer: `Photographer ${id}`,
+    photographer_url: `https://www.pexels.com/@p${id}`,
+    alt: "Brown rocks",
+    src: {
+      original: src("original"),
+      large: src("large"),
+      medium: src("medium"),
+      small: src("small"),
+    },
+  };
+}
+
+function video(id: number, duration: number) {
+  return {
+    id,
+    width: 1920,
+    height: 1080,
+    url: `https://www.pexels.com/video/waves-on-the-shore-${id}/`,
+    image: `https://images.pexels.com/videos/${id}/poster.jpg`,
+    duration,
+    user: { id, name: `Creator ${id}`, url: `https://www.pexels.com/@c${id}` },
+    video_files: [
+      {
+        id: id * 10,
+        quality: "hd",
+        file_type: "video/mp4",
+        width: 1280,
+        height: 720,
+        link: `https://videos.pexels.com/${id}/hd.mp4`,
+      },
+      {
+        id: id * 10 + 1,
+        quality: "sd",
+        file_type: "video/mp4",
+        width: 640,
+        height: 360,
+        link: `https://videos.pexels.com/${id}/sd.mp4`,
+      },
+    ],
+  };
+}
+
+describe("PexelsClient.searchImages", () => {
+  it("authenticates, maps photos and translates filters", async () => {
+    upstream.respond(() => ({
+      body: { total_results: 12, photos: [photo(1), { id: 2 }, photo(3)] },
+    }));
+
+    const result = await new PexelsClient("test-pexels-key").searchImages({
+      query: "rocks",
+      locale: "pt-BR",
+      per_page: 6,
+      orientation: "vertical",
+      colors: ["grayscale", "lilac"],
+    });
+
+    assert.deepEqual(
+      result.results.map((item) => item.id),
+      [1, 3]
+    );
+    const [first] = result.results;
+    assert.equal(first?.source, "pexels");
+    assert.equal(first?.imageUrl, "https://images.pexels.com/1/large.jpg");
+    // Pexels has no tags, so the page URL slug supplies them.
+    assert.deepEqual(first?.tags, [
+      "brown",
+      "rocks",
+      "during",
+      "golden",
+      "hour",
+    ]);
+    assert.deepEqual(result.pagination, {
+      page: 1,
+      perPage: 6,
+      hasMore: true,
+      nextPage: 2,
+    });
+
+    const [request] = upstream.requests;
+    const params = request!.url.searchParams;
+    assert.equal(request!.headers.authorization, "test-pexels-key");
+    assert.equal(request!.url.pathname, "/pexels/search");
+    assert.equal(params.get("locale"), "pt-BR");
+    assert.equal(params.get("orientation"), "portrait");
+    assert.equal(params.get("color"), "violet");
+  });
+
+  it("pages over size-filtered photos without skipping any", async () => {
+    // Every third photo is too small for the requested minimum.
+    const photos = Array.from({ length: 40 }, (_, index) =>
+      index % 3 === 0 ? photo(index + 1, 800, 600) : photo(index + 1)
+    );
+    upstream.respond((request) => ({
+      body: { total_results: photos.length, photos: pageOf(photos, request) },
+    }));
+    const client = new PexelsClient("test-pexels-key");
+
+    const seen: number[] = [];
+    for (let page: number | null = 1; page !== null; ) {
+      const result = await client.searchImages({
+        query: "rocks",
+        locale: "en-US",
+        per_page: 5,
+        page,
+        min_width: 1920,
+      });
+      assert.ok(result.results.length <= 5);
+      seen.push(...result.results.map((item) => item.id));
+      page = result.pagination.nextPage;
+    }
+
+    assert.deepEqual(
+      seen,
+      photos.filter((item) => item.width >= 1920).map((item) => item.id)
+    );
+    for (const request of upstream.requests) {
+      assert.equal(request.url.searchParams.has("min_width"), false);
+    }
+  });
+});
+
+describe("PexelsClient.searchVideos", () => {
+  it("filters by duration and picks the HD file", async () => {
+    const videos = [video(1, 5), video(2, 45), video(3, 90), video(4, 30)];
+    upstream.respond((request) => ({
+      body: { total_results: videos.length, videos: pageOf(videos, request) },
+    }));
+
+    const result = await new PexelsClient("test-pexels-key").searchVideos({
+      query: "waves",
+      locale: "en-US",
+      per_page: 3,
+      min_duration: 20,
+      max_duration: 60,
+    });
+
+    assert.deepEqual(
+      result.results.map((item) => item.id),
+      [2, 4]
+    );
+    assert.equal(result.pagination.hasMore, false);
+    const [first] = result.results;
+    assert.equal(first?.videoUrl, "https://videos.pexels.com/2/hd.mp4");
+    assert.equal(first?.creator.name, "Creator 2");
+    assert.equal(upstream.requests[0]!.url.pathname, "/pexels/videos/search");
+  });
+
+  it("rejects a minimum duration above the maximum", async () => {
+    upstream.respond(() => ({ body: { total_results: 0, videos: [] } }));
+
+    await assert.rejects(
+      new PexelsClient("test-pexels-key").searchVideos({
+        query: "waves",
+        locale: "en-US",
+        min_duration: 60,
+        max_duration: 10,
+      }),
+      /min_duration must be less than or equal to max_duration/
+    );
+    assert.equal(upstream.requests.length, 0);
+  });
+});
+
+describe("PexelsClient rate limits", () => {
+  it("names Pexels while its budget is exhausted", async () => {
+    upstream.respond(() => ({ status: 429, body: "Too Many Requests" }));
+    const client = new PexelsClient("test-pexels-key");
+    const search = () =>
+      client.searchImages({ query: "rocks", locale: "en-US" });
+
+    await assert.rejects(search(), /Pexels rate limit reached/);
+    // The second call is held back by the scheduler without a request.
+    await assert.rejects(search(), /Pexels rate limit reached/);
+    assert.equal(upstream.requests.length, 1);
+  });
+});
+
+describe("PexelsClient.getImage", () => {
+  it("returns null for IDs Pexels does not know", async () => {
+    upstream.respond(() => ({ status: 404, body: "Not Found" }));
+
+    assert.equal(await new PexelsClient("test-pexels-key").getImage(9), null);
+  });
+});
@@ -0,0 +1,215 @@
+import assert from "node:assert/strict";
+import { after, describe, it } from "node:test";
+import { MockUpstream, pageOf, useMockUpstream } from "./mock-upstream.js";
+
+const upstream = await MockUpstream.start();
+useMockUpstream(upstream);
+const { PixabayClient } = await import("../src/pixabay.js");
+
+after(() => upstream.close());
+
+function imageHit(id: number, overrides: Record<string, unknown> = {}) {
+  return {
+    id,
+    pageURL: `https://pixabay.com/photos/shot-${id}/`,
+    previewURL: `https://cdn.pixabay.com/${id}_150.jpg`,
+    webformatURL: `https://cdn.pixabay.com/${id}_640.jpg`,
+    largeImageURL: `https://cdn.pixabay.com/${id}_1280.jpg`,
+    imageWidth: 4000,
+    imageHeight: 3000,
+    tags: "cat, animal",
+    user: `user${id}`,
+    user_id: id,
+    likes: 10,
+    downloads: 100,
+    ...overrides,
+  };
+}
+
+function videoHit(id: number, duration: number) {
+  return {
+    id,
+    pageURL: `https://pixabay.com/videos/clip-${id}/`,
+    tags: "sea, waves",
+    duration,
+    type: "film",
+    videos: {
+      medium: {
+        url: `https://cdn.pixabay.com/${id}_medium.mp4`,
+        width: 1280,
+        height: 720,
+        thumbnail: `https://cdn.pixabay.com/${id}_medium.jpg`,
+      },
+    },
+    user: `user${id}`,
+    user_id: id,
+  };
+}
+
+describe("PixabayClient.searchImages", () => {
+  it("maps hits and sends the resolved filters upstream", async () => {
+    upstream.respond(() => ({
+      body: {
+        total: 30,
+        totalHits: 30,
+        hits: [imageHit(1), { id: "malformed" }, imageHit(2)],
+      },
+    }));
+
+    const result = await new PixabayClient().searchImages({
+      query: "cat",
+      locale: "de-DE",
+      per_page: 10,
+      colors: ["red"],
+    });
+
+    assert.deepEqual(
+      result.results.map((item) => item.id),
+      [1, 2]
+    );
+    const [first] = result.results;
+    assert.equal(first?.source, "pixabay");
+    assert.deepEqual(first?.tags, ["cat", "animal"]);
+    assert.equal(first?.photographer.name, "user1");
+    assert.deepEqual(result.pagination, {
+      page: 1,
+      perPage: 10,
+      hasMore: true,
+      nextPage: 2,
+    });
+
+    const [request] = upstream.requests;
+    const params = request!.url.searchParams;
+    assert.equal(request!.url.pathname, "/pixabay/");
+    assert.equal(params.get("key"), "test-pixabay-key");
+    assert.equal(params.get("q"), "cat");
+    assert.equal(params.get("lang"), "de");
+    assert.equal(params.get("image_type"), "photo");
+    assert.equal(params.get("safesearch"), "true");
+    assert.equal(params.get("colors"), "red");
+  });
+
+  it("rejects pages past the accessible window without a request", async () => {
+    upstream.respond(() => ({ body: { total: 0, totalHits: 0, hits: [] } }));
+
+    await assert.rejects(
+      new PixabayClient().searchImages({
+        query: "cat",
+        locale: "en",
+        per_page: 20,
+        page: 26,
+      }),
+      /last page is 25/
+    );
+    assert.equal(upstream.requests.length, 0);
+  });
+
+  it("keeps Pixabay's order unless a ranking is requested", async () => {
+    upstream.respond(() => ({
+      body: {
+        total: 3,
+        totalHits: 3,
+        hits: [
+          imageHit(1, { tags: "tree" }),
+          imageHit(2, { tags: "cat, sleeping", user: "ann", user_id: 7 }),
+          imageHit(3, { tags: "cats, sleeping", user: "ann", user_id: 7 }),
+        ],
+      },
+    }));
+    const client = new PixabayClient();
+
+    const unranked = await client.searchImages({
+      query: "sleeping cat",
+      locale: "en",
+    });
+    assert.deepEqual(
+      unranked.results.map((item) => item.id),
+      [1, 2, 3]
+    );
+    assert.equal(upstream.requests[0]!.url.searchParams.has("ranking"), false);
+
+    const ranked = await client.searchImages({
+      query: "sleeping cat",
+      locale: "en",
+      ranking: "relevance",
+    });
+    // Hit 3 repeats hit 2 from the same contributor, so it is collapsed.
+    assert.deepEqual(
+      ranked.results.map((item) => item.id),
+      [2, 1]
+    );
+    assert.equal(ranked.collapsed, 1);
+  });
+
+  it("names the API key variable when Pixabay rejects the key", async () => {
+    upstream.respond(() => ({ status: 401, body: "[ERROR 401]" }));
+
+    await assert.rejects(
+      new PixabayClient().searchImages({ query: "cat", locale: "en" }),
+      /PIXABAY_API_KEY/
+    );
+  });
+});
+
+describe("PixabayClient.searchVideos", () => {
+  it("pages over duration-filtered hits without skipping any", async () => {
+    // Odd IDs are 10 seconds long, even IDs a minute.
+    const hits = Array.from({ length: 50 }, (_, index) =>
+      videoHit(index + 1, index % 2 === 0 ? 10 : 60)
+    );
+    upstream.respond((request) => ({
+      body: { total: 50, totalHits: 50, hits: pageOf(hits, request) },
+    }));
+    const client = new PixabayClient();
+
+    const seen: number[] = [];
+    for (let page: number | null = 1; page !== null; ) {
+      const result = await client.searchVideos({
+        query: "sea",
+        locale: "en",
+        per_page: 4,
+        page,
+        min_duration: 30,
+      });
+      assert.ok(result.results.length <= 4);
+      seen.push(...result.results.map((item) => item.id));
+      page = result.pagination.nextPage;
+    }
+
+    assert.deepEqual(
+      seen,
+      hits.filter((hit) => hit.duration >= 30).map((hit) => hit.id)
+    );
+    for (const request of upstream.requests) {
+      assert.equal(request.url.pathname, "/pixabay/videos/");
+      assert.equal(request.url.searchParams.has("min_duration"), false);
+    }
+  });
+
+  it("picks a rendition and its thumbnail", async () => {
+    upstream.respond(() => ({
+      body: { total: 1, totalHits: 1, hits: [videoHit(5, 12)] },
+    }));
+
+    const result = await new PixabayClient().searchVideos({
+      query: "sea",
+      locale: "en",
+    });
+
+    const [video] = result.results;
+    assert.equal(video?.videoUrl, "https://cdn.pixabay.com/5_medium.mp4");
+    assert.equal(
+      video?.previewImageUrl,
+      "https://cdn.pixabay.com/5_medium.jpg"
+    );
+    assert.equal(video?.durationSeconds, 12);
+  });
+});
+
+describe("PixabayClient.getImage", () => {
+  it("returns null for IDs Pixabay does not know", async () => {
+    upstream.respond(() => ({ status: 400, body: "[ERROR 400] Invalid id" }));
+
+    assert.equal(await new PixabayClient().getImage(404), null);
+  });
+});
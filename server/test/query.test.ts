@@ -0,0 +1,38 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+// The config loaded on import needs a key; planning makes no requests.
+process.env.PIXABAY_API_KEY = "test-pixabay-key";
+const { planQuery } = await import("../src/query.js");
+
+describe("planQuery", () => {
+  it("keeps color words that are part of the subject", () => {
+    for (const query of ["red panda", "green tea"]) {
+      const { candidates } = planQuery(query, 6);
+      assert.equal(candidates.length, 1);
+      assert.equal(candidates[0]?.query, query);
+      assert.equal(candidates[0]?.hints.colors, undefined);
+    }
+  });
+
+  it("turns a trailing color into a filter without dropping the word", () => {
+    const { candidates } = planQuery(
+      "a photo of a cat sleeping on a windowsill at sunset, orange tones",
+      6
+    );
+
+    assert.equal(candidates[0]?.query, "cat sleeping windowsill sunset orange");
+    assert.deepEqual(candidates[0]?.hints.colors, ["orange"]);
+    for (const candidate of candidates) {
+      assert.match(candidate.query, /\borange\b/);
+    }
+    assert.equal(candidates.at(-1)?.query, "cat sleeping orange");
+  });
+
+  it("still moves format words into filters", () => {
+    const [first] = planQuery("vertical photo of a waterfall", 6).candidates;
+
+    assert.equal(first?.query, "waterfall");
+    assert.equal(first?.hints.orientation, "vertical");
+  });
+});
@@ -0,0 +1,165 @@
+import assert from "node:assert/strict";
+import { createServer } from "node:http";
+import type { AddressInfo } from "node:net";
+import { after, describe, it } from "node:test";
+
+// The config loaded on import needs a key.
+process.env.PIXABAY_API_KEY = "test-pixabay-key";
+process.env.LOG_LEVEL = "error";
+const {
+  CircuitBreaker,
+  TransientUpstreamError,
+  UpstreamUnavailableError,
+  fetchWithTimeout,
+  withRetry,
+} = await import("../src/resilience.js");
+
+// Sends headers at once, then the body only after `?delay=` milliseconds.
+const slowServer = createServer((req, res) => {
+  const { searchParams } = new URL(req.url ?? "/", "http://localhost");
+  res.writeHead(200, { "content-type": "application/json" });
+  res.write("[");
+  const timer = setTimeout(
+    () => res.end("1]"),
+    Number(searchParams.get("delay"))
+  );
+  res.once("close", () => clearTimeout(timer));
+});
+await new Promise<void>((resolve) => {
+  slowServer.listen(0, "127.0.0.1", () => resolve());
+});
+const { port } = slowServer.address() as AddressInfo;
+const slowUrl = `http://127.0.0.1:${port}`;
+
+after(
+  () =>
+    new Promise<void>((resolve) => {
+      slowServer.closeAllConnections();
+      slowServer.close(() => resolve());
+    })
+);
+
+function failingTask(failures: Error[]) {
+  let calls = 0;
+  const task = async () => {
+    calls += 1;
+    const failure = failures.shift();
+    if (failure) throw failure;
+    return "ok";
+  };
+  return { task, calls: () => calls };
+}
+
+describe("withRetry", () => {
+  it("retries transient failures", async () => {
+    const { task, calls } = failingTask([
+      new TransientUpstreamError("reset"),
+      new TransientUpstreamError("reset"),
+    ]);
+
+    assert.equal(await withRetry(task, { retries: 2, baseDelayMs: 1 }), "ok");
+    assert.equal(calls(), 3);
+  });
+
+  it("gives up after the configured retries", async () => {
+    const { task, calls } = failingTask([
+      new TransientUpstreamError("first"),
+      new TransientUpstreamError("second"),
+    ]);
+
+    await assert.rejects(
+      withRetry(task, { retries: 1, baseDelayMs: 1 }),
+      /second/
+    );
+    assert.equal(calls(), 2);
+  });
+
+  it("does not retry other errors", async () => {
+    const { task, calls } = failingTask([new Error("bad request")]);
+
+    await assert.rejects(
+      withRetry(task, { retries: 3, baseDelayMs: 1 }),
+      /bad request/
+    );
+    assert.equal(calls(), 1);
+  });
+});
+
+describe("fetchWithTimeout", () => {
+  it("reads a body that arrives in time", async () => {
+    const body = await fetchWithTimeout(
+      `${slowUrl}/?delay=10`,
+      {},
+      1000,
+      (response) => response.json()
+    );
+
+    assert.deepEqual(body, [1]);
+  });
+
+  it("times out a body that stalls after the headers", async () => {
+    await assert.rejects(
+      fetchWithTimeout(`${slowUrl}/?delay=5000`, {}, 100, (response) =>
+        response.json()
+      ),
+      (error: unknown) =>
+        error instanceof TransientUpstreamError &&
+        /timed out after 100ms/.test(error.message)
+    );
+  });
+});
+
+describe("CircuitBreaker", () => {
+  const failing = () => Promise.reject(new TransientUpstreamError("down"));
+
+  it("opens after repeated failures and fails fast", async () => {
+    const breaker = new CircuitBreaker({
+      name: "Pexels",
+      failureThreshold: 2,
+      cooldownMs: 60_000,
+    });
+
+    for (let attempt = 0; attempt < 2; attempt += 1) {
+      await assert.rejects(breaker.execute(failing), UpstreamUnavailableError);
+    }
+    assert.equal(breaker.currentState, "open");
+
+    let called = false;
+    await assert.rejects(
+      breaker.execute(async () => {
+        called = true;
+      }),
+      /Pexels is temporarily unavailable after repeated failures/
+    );
+    assert.equal(called, false);
+  });
+
+  it("closes again after a successful trial call", async () => {
+    const breaker = new CircuitBreaker({
+      name: "Pexels",
+      failureThreshold: 1,
+      cooldownMs: 20,
+    });
+    await assert.rejects(breaker.execute(failing), UpstreamUnavailableError);
+    assert.equal(breaker.currentState, "open");
+
+    await new Promise((resolve) => setTimeout(resolve, 30));
+
+    assert.equal(await breaker.execute(async () => "ok"), "ok");
+    assert.equal(breaker.currentState, "closed");
+  });
+
+  it("does not count errors that are not transient", async () => {
+    const breaker = new CircuitBreaker({
+      name: "Pexels",
+      failureThreshold: 1,
+      cooldownMs: 60_000,
+    });
+
+    await assert.rejects(
+      breaker.execute(() => Promise.reject(new Error("bad request"))),
+      /bad request/
+    );
+    assert.equal(breaker.currentState, "closed");
+  });
+});
@@ -0,0 +1,105 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import type { RateLimitInfo } from "../src/scheduler.js";
+
+// The config loaded on import needs a key; the scheduler makes no requests.
+process.env.PIXABAY_API_KEY = "test-pixabay-key";
+const { RateLimitExceededError, RequestScheduler } = await import(
+  "../src/scheduler.js"
+);
+
+function scheduler(maxWaitMs = 1000) {
+  return new RequestScheduler({ name: "Pexels", reserve: 2, maxWaitMs });
+}
+
+/** A task that resolves when `release` is called. */
+function deferredTask() {
+  let release!: () => void;
+  const released = new Promise<void>((resolve) => {
+    release = resolve;
+  });
+  const signals: AbortSignal[] = [];
+  const task = async (
+    signal: AbortSignal
+  ): Promise<{ value: number; rateLimit?: RateLimitInfo }> => {
+    signals.push(signal);
+    await Promise.race([
+      released,
+      new Promise((_, reject) => {
+        signal.addEventListener("abort", () => reject(signal.reason));
+      }),
+    ]);
+    return { value: signals.length };
+  };
+  return { task, signals, release };
+}
+
+describe("RequestScheduler", () => {
+  it("shares one upstream call between identical requests", async () => {
+    const requests = scheduler();
+    const { task, signals, release } = deferredTask();
+
+    const first = requests.schedule("same", task);
+    const second = requests.schedule("same", task);
+    release();
+
+    assert.deepEqual(await Promise.all([first, second]), [
+      { value: 1 },
+      { value: 1 },
+    ]);
+    assert.equal(signals.length, 1);
+  });
+
+  it("keeps a shared call running when one caller leaves", async () => {
+    const requests = scheduler();
+    const { task, signals, release } = deferredTask();
+    const leaving = new AbortController();
+    const staying = new AbortController();
+
+    const left = requests.schedule("same", task, { signal: leaving.signal });
+    const stayed = requests.schedule("same", task, { signal: staying.signal });
+    await Promise.resolve();
+    leaving.abort(new Error("gone"));
+
+    await assert.rejects(left, /gone/);
+    assert.equal(signals[0]?.aborted, false);
+    release();
+    assert.deepEqual(await stayed, { value: 1 });
+  });
+
+  it("aborts the upstream call once its last caller leaves", async () => {
+    const requests = scheduler();
+    const { task, signals } = deferredTask();
+    const leaving = new AbortController();
+
+    const pending = requests.schedule("key", task, { signal: leaving.signal });
+    await Promise.resolve();
+    leaving.abort(new Error("gone"));
+
+    await assert.rejects(pending, /gone/);
+    assert.equal(signals[0]?.aborted, true);
+  });
+
+  it("names the upstream when the wait would be too long", async () => {
+    const requests = scheduler(1000);
+    requests.exhaust(30);
+
+    await assert.rejects(
+      requests.schedule("key", async () => ({})),
+      (error: unknown) =>
+        error instanceof RateLimitExceededError &&
+        error.retryAfterSeconds === 30 &&
+        /Pexels rate limit reached/.test(error.message)
+    );
+  });
+
+  it("waits for a budget that recovers within the limit", async () => {
+    const requests = scheduler(1000);
+    requests.observe({ remaining: 1, resetSeconds: 0.05 });
+    const startedAt = Date.now();
+
+    await requests.schedule("key", async () => ({}));
+
+    assert.ok(Date.now() - startedAt >= 40);
+  });
+});
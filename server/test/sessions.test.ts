@@ -0,0 +1,138 @@
+import assert from "node:assert/strict";
+import { createServer } from "node:http";
+import type { AddressInfo } from "node:net";
+import { after, describe, it } from "node:test";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { MockUpstream, useMockUpstream } from "./mock-upstream.js";
+
+const upstream = await MockUpstream.start();
+useMockUpstream(upstream);
+const { SessionRegistry } = await import("../src/sessions.js");
+
+after(() => upstream.close());
+
+const HEADERS = {
+  "content-type": "application/json",
+  accept: "application/json, text/event-stream",
+};
+
+const INITIALIZE = {
+  jsonrpc: "2.0",
+  id: 1,
+  method: "initialize",
+  params: {
+    protocolVersion: "2025-03-26",
+    capabilities: {},
+    clientInfo: { name: "test", version: "1.0.0" },
+  },
+};
+
+/** Serves a registry over HTTP the way the /mcp route does. */
+async function serve(registry: InstanceType<typeof SessionRegistry>) {
+  const httpServer = createServer((req, res) => {
+    const sessionId = req.headers["mcp-session-id"];
+    const transport =
+      typeof sessionId === "string"
+        ? registry.get(sessionId, null, res)
+        : undefined;
+    if (transport) {
+      void transport.handleRequest(req, res);
+    } else if (sessionId) {
+      res.writeHead(404).end();
+    } else {
+      void registry.handleUnbound(null, req, res);
+    }
+  });
+  await new Promise<void>((resolve) => {
+    httpServer.listen(0, "127.0.0.1", () => resolve());
+  });
+  const { port } = httpServer.address() as AddressInfo;
+  return {
+    url: `http://127.0.0.1:${port}/mcp`,
+    close: () =>
+      new Promise<void>((resolve) => {
+        httpServer.closeAllConnections();
+        httpServer.close(() => resolve());
+      }),
+  };
+}
+
+function registryWith(closed: string[]) {
+  const servers: McpServer[] = [];
+  const registry = new SessionRegistry(
+    { idleTimeoutSeconds: 1, maxSessions: 10, maxEvents: 10 },
+    () => {
+      const server = new McpServer({ name: "test", version: "1.0.0" });
+      servers.push(server);
+      return server;
+    },
+    (sessionId) => closed.push(sessionId)
+  );
+  return { registry, servers };
+}
+
+async function sweep(registry: InstanceType<typeof SessionRegistry>) {
+  await (registry as unknown as { sweep(): Promise<void> }).sweep();
+}
+
+describe("SessionRegistry", () => {
+  it("keeps a session with an open stream past the idle timeout", async () => {
+    const closed: string[] = [];
+    const { registry } = registryWith(closed);
+    const server = await serve(registry);
+
+    const initialized = await fetch(server.url, {
+      method: "POST",
+      headers: HEADERS,
+      body: JSON.stringify(INITIALIZE),
+    });
+    const sessionId = initialized.headers.get("mcp-session-id")!;
+    await initialized.body?.cancel();
+    assert.equal(registry.size, 1);
+
+    const stream = new AbortController();
+    const listening = await fetch(server.url, {
+      headers: {
+        accept: "text/event-stream",
+        "mcp-session-id": sessionId,
+        "mcp-protocol-version": "2025-03-26",
+      },
+      signal: stream.signal,
+    });
+    assert.equal(listening.status, 200);
+
+    await new Promise((resolve) => setTimeout(resolve, 1100));
+    await sweep(registry);
+    assert.deepEqual(closed, []);
+
+    // Once the stream ends, the session idles out like any other.
+    stream.abort();
+    await listening.body?.cancel().catch(() => undefined);
+    await new Promise((resolve) => setTimeout(resolve, 1100));
+    await sweep(registry);
+    assert.deepEqual(closed, [sessionId]);
+
+    await registry.closeAll();
+    await server.close();
+  });
+
+  it("closes the server made for a sessionless non-initialize", async () => {
+    const closed: string[] = [];
+    const { registry, servers } = registryWith(closed);
+    const server = await serve(registry);
+
+    const response = await fetch(server.url, {
+      method: "POST",
+      headers: HEADERS,
+      body: JSON.stringify({ jsonrpc: "2.0", id: 1, method: "tools/list" }),
+    });
+
+    assert.equal(response.status, 400);
+    assert.equal(servers.length, 1);
+    assert.equal(servers[0]!.isConnected(), false);
+    assert.equal(registry.size, 0);
+
+    await registry.closeAll();
+    await server.close();
+  });
+});
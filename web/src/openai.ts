@@ -7,8 +7,10 @@ import {
   useSyncExternalStore,
 } from "react";
 import type {
+  MediaDetailsInput,
   MediaSearchStructuredContent,
   SearchImagesInput,
+  SearchVideosInput,
   WidgetState,
 } from "./types.js";
 
@@ -43,7 +45,11 @@ type WidgetGlobals = {
   maxHeight: number;
   displayMode: DisplayMode;
   safeArea: SafeArea;
-  toolInput: SearchImagesInput | null;
+  toolInput:
+    | SearchImagesInput
+    | SearchVideosInput
+    | MediaDetailsInput
+    | null;
   toolOutput: MediaSearchStructuredContent | null;
   toolResponseMetadata: Record<string, unknown> | null;
   widgetState: WidgetState | null;
@@ -180,6 +186,11 @@ export function openExternalLink(href: string) {
   openai.openExternal({ href });
 }
 
+export function sendFollowUpMessage(prompt: string) {
+  const openai = getOpenAi();
+  return openai.sendFollowUpMessage({ prompt });
+}
+
 export function requestFullscreen() {
   const openai = getOpenAi();
   return openai.requestDisplayMode({ mode: "fullscreen" });
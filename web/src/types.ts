@@ -1,5 +1,16 @@
+export type MediaSource = "pixabay" | "pexels" | "library";
+
+export type MediaRendition = {
+  name: string;
+  url: string;
+  width: number | null;
+  height: number | null;
+  sizeBytes: number | null;
+};
+
 export type ImageResult = {
   id: number;
+  source: MediaSource;
   previewUrl: string;
   pageUrl: string;
   imageUrl: string;
@@ -10,12 +21,15 @@ export type ImageResult = {
     name: string;
     profileUrl: string;
   };
-  likes: number;
-  downloads: number;
+  likes: number | null;
+  downloads: number | null;
+  renditions: MediaRendition[];
+  language?: string;
 };
 
 export type VideoResult = {
   id: number;
+  source: MediaSource;
   pageUrl: string;
   videoUrl: string;
   previewImageUrl: string | null;
@@ -29,6 +43,69 @@ export type VideoResult = {
   };
   likes: number | null;
   downloads: number | null;
+  renditions: MediaRendition[];
+  language?: string;
+};
+
+export type AppliedFilters = Record<
+  string,
+  string | number | boolean | string[]
+>;
+
+export type PaginationInfo = {
+  page: number;
+  perPage: number;
+  hasMore: boolean;
+  nextPage: number | null;
+};
+
+export type SearchNotice = {
+  code: string;
+  message: string;
+  retryAfterSeconds?: number;
+};
+
+export type MediaStats = {
+  likes: number | null;
+  downloads: number | null;
+  views: number | null;
+  comments: number | null;
+};
+
+export type MediaLicense = {
+  name: string;
+  url: string | null;
+  summary: string;
+};
+
+export type MediaDetails = {
+  mediaType: "image" | "video";
+  id: number;
+  source: MediaSource;
+  renditions: MediaRendition[];
+  stats: MediaStats;
+  license: MediaLicense;
+};
+
+export type CollectionSummary = {
+  id: string;
+  name: string;
+  description: string | null;
+  imageCount: number;
+  videoCount: number;
+  updatedAt: string;
+};
+
+export type QueryRewrite = {
+  original: string;
+  query: string;
+  attempts: string[];
+  inferred: Partial<Record<string, string | string[]>>;
+};
+
+export type ContentPolicyDecision = {
+  action: "blocked" | "rewritten";
+  matchedTerms: string[];
 };
 
 export type MediaSearchStructuredContent = {
@@ -37,14 +114,58 @@ export type MediaSearchStructuredContent = {
   videoCount: number;
   images: ImageResult[];
   videos: VideoResult[];
+  pagination: PaginationInfo;
+  filters: AppliedFilters;
+  notices: SearchNotice[];
+  sources: MediaSource[];
   attribution: string;
+  details?: MediaDetails;
+  collection?: CollectionSummary;
+  rewrite?: QueryRewrite;
+  languages?: string[];
+  policy?: ContentPolicyDecision;
 };
 
 export type SearchImagesInput = {
   query: string;
   orientation?: "all" | "horizontal" | "vertical";
+  image_type?: "all" | "photo" | "illustration" | "vector";
+  category?: string;
+  colors?: string[];
+  min_width?: number;
+  min_height?: number;
+  editors_choice?: boolean;
+  order?: "popular" | "latest";
   safesearch?: boolean;
   per_page?: number;
+  page?: number;
+  source?: MediaSource | "all";
+  multilingual?: boolean;
+  ranking?: "relevance" | "popular" | "diverse";
+};
+
+export type SearchVideosInput = {
+  query: string;
+  video_type?: "all" | "film" | "animation";
+  category?: string;
+  min_duration?: number;
+  max_duration?: number;
+  min_width?: number;
+  min_height?: number;
+  editors_choice?: boolean;
+  order?: "popular" | "latest";
+  safesearch?: boolean;
+  per_page?: number;
+  page?: number;
+  source?: MediaSource | "all";
+  multilingual?: boolean;
+  ranking?: "relevance" | "popular" | "diverse";
+};
+
+export type MediaDetailsInput = {
+  id: number;
+  media_type: "image" | "video";
+  source?: MediaSource;
 };
 
 export type WidgetState = {
@@ -2,11 +2,25 @@ import { memo, useCallback, useEffect, useMemo, useState } from "react";
 import type { CSSProperties, ReactNode } from "react";
 import {
   openExternalLink,
+  sendFollowUpMessage,
   useOpenAiGlobal,
   useToolOutput,
   useWidgetState,
 } from "../openai.js";
-import type { ImageResult, VideoResult, WidgetState } from "../types.js";
+import type {
+  ImageResult,
+  MediaDetails,
+  MediaRendition,
+  MediaSource,
+  VideoResult,
+  WidgetState,
+} from "../types.js";
+
+const SOURCE_LABELS: Record<MediaSource, string> = {
+  pixabay: "Pixabay",
+  pexels: "Pexels",
+  library: "Media library",
+};
 
 const srOnlyStyle: CSSProperties = {
   position: "absolute",
@@ -186,6 +200,37 @@ const thumbnailDurationStyle: CSSProperties = {
   letterSpacing: "0.05em",
 };
 
+const noticeStyle: CSSProperties = {
+  borderRadius: "12px",
+  border: "1px solid var(--openai-color-border-subtle, #d8dce5)",
+  background: "var(--openai-color-surface-strong, #f1f4f9)",
+  color: "var(--openai-color-text-secondary, #374151)",
+  padding: "10px 14px",
+  fontSize: "0.85rem",
+  lineHeight: 1.5,
+};
+
+const detailsPanelStyle: CSSProperties = {
+  display: "flex",
+  flexDirection: "column",
+  gap: "10px",
+  borderRadius: "14px",
+  border: "1px solid var(--openai-color-border-subtle, #d8dce5)",
+  padding: "12px 14px",
+  color: "var(--openai-color-text-secondary, #374151)",
+  fontSize: "0.85rem",
+  lineHeight: 1.5,
+};
+
+const collectionHeaderStyle: CSSProperties = {
+  display: "flex",
+  flexDirection: "column",
+  gap: "4px",
+  color: "var(--openai-color-text-secondary, #374151)",
+  fontSize: "0.85rem",
+  lineHeight: 1.5,
+};
+
 const videoSkeletonContainerStyle: CSSProperties = {
   borderRadius: "18px",
   overflow: "hidden",
@@ -198,19 +243,26 @@ export function ImageGalleryWidget() {
   const displayMode = useOpenAiGlobal("displayMode");
   const maxHeight = useOpenAiGlobal("maxHeight");
   const safeArea = useOpenAiGlobal("safeArea");
+  const deviceType = useOpenAiGlobal("userAgent").device.type;
 
   const images = toolOutput?.images ?? [];
   const videos = toolOutput?.videos ?? [];
+  const notices = toolOutput?.notices ?? [];
+  const details = toolOutput?.details ?? null;
+  const collection = toolOutput?.collection ?? null;
   const isLoading = !toolOutput;
   const hasImages = images.length > 0;
   const hasVideos = videos.length > 0;
-  const isEmpty = toolOutput && !hasImages && !hasVideos;
+  const isEmpty = toolOutput && !hasImages && !hasVideos && !notices.length;
 
   const [activeVideoId, setActiveVideoId] = useState<number | null>(null);
 
   useEffect(() => {
+    const focusedVideoId =
+      details?.mediaType === "video" ? details.id : null;
     const nextId =
       widgetState?.activeVideoId ??
+      focusedVideoId ??
       (videos.length > 0 ? videos[0]?.id ?? null : null);
     setActiveVideoId((current) => {
       if (current === nextId) {
@@ -218,7 +270,7 @@ export function ImageGalleryWidget() {
       }
       return nextId;
     });
-  }, [widgetState?.activeVideoId, videos]);
+  }, [widgetState?.activeVideoId, videos, details]);
 
   const selectedVideo = useMemo(() => {
     if (!videos.length) return null;
@@ -246,8 +298,30 @@ export function ImageGalleryWidget() {
     [setWidgetState]
   );
 
-  const gridTemplate =
-    displayMode === "fullscreen"
+  const pagination = toolOutput?.pagination ?? null;
+
+  const handleShowMore = useCallback(() => {
+    if (!toolOutput || !pagination?.nextPage) {
+      return;
+    }
+    void sendFollowUpMessage(
+      toolOutput.collection
+        ? `Show page ${pagination.nextPage} of the "${toolOutput.collection.name}" collection.`
+        : `Show page ${pagination.nextPage} of the results for "${toolOutput.query}".`
+    );
+  }, [toolOutput, pagination]);
+
+  const playerWidth = getPlayerTargetWidth(displayMode, deviceType);
+  const tileWidth = details
+    ? playerWidth
+    : displayMode === "fullscreen"
+      ? 480
+      : 320;
+
+  // A single focused item from get_media_details gets the full width.
+  const gridTemplate = details
+    ? "minmax(0, 1fr)"
+    : displayMode === "fullscreen"
       ? "repeat(auto-fill, minmax(220px, 1fr))"
       : "repeat(auto-fill, minmax(140px, 1fr))";
 
@@ -255,9 +329,11 @@ export function ImageGalleryWidget() {
     <div
       role="region"
       aria-label={
-        toolOutput?.query
-          ? `Pixabay media results for ${toolOutput.query}`
-          : "Pixabay media gallery"
+        collection
+          ? `Collection ${collection.name}`
+          : toolOutput?.query
+            ? `Stock media results for ${toolOutput.query}`
+            : "Stock media gallery"
       }
       style={{
         maxHeight: `${maxHeight}px`,
@@ -284,22 +360,38 @@ export function ImageGalleryWidget() {
         </>
       ) : null}
 
+      {collection ? (
+        <header style={collectionHeaderStyle}>
+          <strong style={{ fontSize: "1rem" }}>{collection.name}</strong>
+          {collection.description ? <span>{collection.description}</span> : null}
+        </header>
+      ) : null}
+
+      {notices.map((notice, index) => (
+        <div key={`${notice.code}-${index}`} role="status" style={noticeStyle}>
+          {notice.message}
+        </div>
+      ))}
+
       {hasVideos && selectedVideo ? (
         <VideoSection
           videos={videos}
           selectedVideo={selectedVideo}
           onSelectVideo={handleVideoSelect}
+          targetWidth={playerWidth}
         />
       ) : null}
 
       {hasImages ? (
         <GalleryGrid template={gridTemplate}>
           {images.map((image) => (
-            <ImageTile key={image.id} image={image} />
+            <ImageTile key={image.id} image={image} targetWidth={tileWidth} />
           ))}
         </GalleryGrid>
       ) : null}
 
+      {details ? <DetailsPanel details={details} /> : null}
+
       {isEmpty ? (
         <div
           style={{
@@ -315,7 +407,15 @@ export function ImageGalleryWidget() {
             textAlign: "center",
           }}
         >
-          No matching Pixabay media surfaced for this description.
+          No matching stock media surfaced for this description.
+        </div>
+      ) : null}
+
+      {pagination?.hasMore ? (
+        <div style={{ display: "flex", justifyContent: "center" }}>
+          <button type="button" onClick={handleShowMore} style={ctaButtonStyle}>
+            Show more results
+          </button>
         </div>
       ) : null}
 
@@ -365,9 +465,16 @@ function GalleryGrid({ template, children }: GalleryGridProps) {
 
 type ImageTileProps = {
   image: ImageResult;
+  targetWidth: number;
 };
 
-const ImageTile = memo(function ImageTile({ image }: ImageTileProps) {
+const ImageTile = memo(function ImageTile({ image, targetWidth }: ImageTileProps) {
+  const src =
+    pickRenditionUrl(
+      image.renditions,
+      targetWidth,
+      image.imageWidth / image.imageHeight
+    ) ?? image.previewUrl;
   const aspectRatio =
     image.imageWidth > 0 && image.imageHeight > 0
       ? `${image.imageWidth} / ${image.imageHeight}`
@@ -393,7 +500,7 @@ const ImageTile = memo(function ImageTile({ image }: ImageTileProps) {
       onBlur={(event) => revealIcon(event.currentTarget, false)}
     >
       <img
-        src={image.previewUrl}
+        src={src}
         alt={buildImageAltText(image)}
         loading="lazy"
         style={{
@@ -406,18 +513,78 @@ const ImageTile = memo(function ImageTile({ image }: ImageTileProps) {
       <span style={overlayIconStyle} aria-hidden="true">
         ↗
       </span>
-      <span style={srOnlyStyle}>Open image on Pixabay (opens in new tab)</span>
+      <span style={srOnlyStyle}>
+        Open image on {SOURCE_LABELS[image.source]} (opens in new tab)
+      </span>
     </button>
   );
 });
 
+type DetailsPanelProps = {
+  details: MediaDetails;
+};
+
+function DetailsPanel({ details }: DetailsPanelProps) {
+  const stats = buildDetailStats(details);
+  const { license } = details;
+
+  return (
+    <section aria-label="Media details" style={detailsPanelStyle}>
+      {stats.length > 0 ? <div>{stats.join(" · ")}</div> : null}
+      {details.renditions.length > 0 ? (
+        <div style={chipRowStyle}>
+          {details.renditions.map((rendition) => (
+            <button
+              key={rendition.name}
+              type="button"
+              onClick={() => openExternalLink(rendition.url)}
+              style={ctaButtonStyle}
+            >
+              {formatRendition(rendition)}
+            </button>
+          ))}
+        </div>
+      ) : null}
+      <div>
+        {license.url ? (
+          <a
+            href={license.url}
+            onClick={(event) => {
+              event.preventDefault();
+              openExternalLink(license.url!);
+            }}
+            style={{ color: "inherit", textDecoration: "underline" }}
+          >
+            {license.name}
+          </a>
+        ) : (
+          <strong>{license.name}</strong>
+        )}
+        : {license.summary}
+      </div>
+    </section>
+  );
+}
+
 type VideoSectionProps = {
   videos: VideoResult[];
   selectedVideo: VideoResult;
   onSelectVideo: (id: number) => void;
+  targetWidth: number;
 };
 
-function VideoSection({ videos, selectedVideo, onSelectVideo }: VideoSectionProps) {
+function VideoSection({
+  videos,
+  selectedVideo,
+  onSelectVideo,
+  targetWidth,
+}: VideoSectionProps) {
+  const videoSrc =
+    pickRenditionUrl(
+      selectedVideo.renditions,
+      targetWidth,
+      (selectedVideo.width ?? 0) / (selectedVideo.height ?? 0)
+    ) ?? selectedVideo.videoUrl;
   const aspectRatio = getVideoAspectRatio(selectedVideo);
   const durationLabel = formatDuration(selectedVideo.durationSeconds);
   const tagSamples = selectedVideo.tags.slice(0, 4);
@@ -431,13 +598,14 @@ function VideoSection({ videos, selectedVideo, onSelectVideo }: VideoSectionProp
     >
       <div style={{ ...videoWrapperStyle, aspectRatio }}>
         <video
-          key={selectedVideo.id}
+          key={`${selectedVideo.id}-${videoSrc}`}
           controls
           poster={selectedVideo.previewImageUrl ?? undefined}
           style={videoElementStyle}
         >
-          <source src={selectedVideo.videoUrl} type="video/mp4" />
-          Your browser does not support embedded videos. You can open this video on Pixabay instead.
+          <source src={videoSrc} type="video/mp4" />
+          Your browser does not support embedded videos. You can open this video on{" "}
+          {SOURCE_LABELS[selectedVideo.source]} instead.
         </video>
       </div>
       <div style={videoMetaContainerStyle}>
@@ -499,7 +667,7 @@ function VideoSection({ videos, selectedVideo, onSelectVideo }: VideoSectionProp
               "var(--openai-color-border-subtle, #d8dce5)";
           }}
         >
-          View on Pixabay
+          View on {SOURCE_LABELS[selectedVideo.source]}
           <span aria-hidden="true" style={{ fontSize: "0.9em" }}>
             ↗
           </span>
@@ -561,7 +729,9 @@ const VideoThumbnailButton = memo(function VideoThumbnailButton({
           style={thumbnailImageStyle}
         />
       ) : (
-        <div style={thumbnailPlaceholderStyle}>Pixabay video</div>
+        <div style={thumbnailPlaceholderStyle}>
+          {SOURCE_LABELS[video.source]} video
+        </div>
       )}
       {durationLabel ? <span style={thumbnailDurationStyle}>{durationLabel}</span> : null}
     </button>
@@ -606,16 +776,16 @@ function getSkeletonContainerStyle(displayMode: string): CSSProperties {
 
 function buildImageAltText(image: ImageResult) {
   if (image.tags.length) {
-    return `Pixabay photograph featuring ${image.tags.join(", ")}`;
+    return `${SOURCE_LABELS[image.source]} image featuring ${image.tags.join(", ")}`;
   }
-  return "Pixabay photograph";
+  return `${SOURCE_LABELS[image.source]} image`;
 }
 
 function buildVideoLabel(video: VideoResult): string {
   if (video.tags.length) {
-    return `Pixabay video featuring ${video.tags.join(", ")}`;
+    return `${SOURCE_LABELS[video.source]} video featuring ${video.tags.join(", ")}`;
   }
-  return `Pixabay video by ${video.creator.name}`;
+  return `${SOURCE_LABELS[video.source]} video by ${video.creator.name}`;
 }
 
 function formatDuration(durationSeconds: number): string {
@@ -650,6 +820,60 @@ function buildVideoStats(video: VideoResult): string[] {
   return stats;
 }
 
+function getPlayerTargetWidth(displayMode: string, deviceType: string): number {
+  if (displayMode === "fullscreen") {
+    return deviceType === "desktop" ? 1920 : 1280;
+  }
+  return deviceType === "mobile" ? 640 : 960;
+}
+
+/**
+ * Picks the smallest rendition at least `targetWidth` wide, falling back to
+ * the widest one. Cropped renditions whose shape differs from the original
+ * are skipped. Returns null when no rendition reports its size.
+ */
+function pickRenditionUrl(
+  renditions: MediaRendition[] | undefined,
+  targetWidth: number,
+  aspectRatio: number
+): string | null {
+  const matchesShape = (rendition: MediaRendition) =>
+    !Number.isFinite(aspectRatio) ||
+    Math.abs(rendition.width! / rendition.height! / aspectRatio - 1) < 0.05;
+  const sized = (renditions ?? [])
+    .filter((rendition) => rendition.width && rendition.height)
+    .filter(matchesShape)
+    .sort((a, b) => a.width! - b.width!);
+  if (sized.length === 0) {
+    return null;
+  }
+  const match = sized.find((rendition) => rendition.width! >= targetWidth);
+  return (match ?? sized[sized.length - 1]!).url;
+}
+
+function buildDetailStats({ stats }: MediaDetails): string[] {
+  const labels: Array<[number | null, string]> = [
+    [stats.views, "view"],
+    [stats.likes, "like"],
+    [stats.downloads, "download"],
+    [stats.comments, "comment"],
+  ];
+  return labels
+    .filter((entry): entry is [number, string] => typeof entry[0] === "number")
+    .map(([count, label]) => `${count} ${label}${count === 1 ? "" : "s"}`);
+}
+
+function formatRendition(rendition: MediaRendition): string {
+  const parts = [rendition.name];
+  if (rendition.width && rendition.height) {
+    parts.push(`${rendition.width}×${rendition.height}`);
+  }
+  if (rendition.sizeBytes) {
+    parts.push(`${(rendition.sizeBytes / (1024 * 1024)).toFixed(1)} MB`);
+  }
+  return parts.join(" · ");
+}
+
 function ensureWidgetState(state: WidgetState | null): WidgetState {
   return {
     focusedImageId: state?.focusedImageId ?? null,